@@ -5,9 +5,18 @@ import { createClient, type RedisClientType } from 'redis';
 import { createStockRoutes, errorHandler } from './routes';
 import { Server } from 'http';
 import config from './config/config';
-import cron from 'node-cron'
-import { runSnapshotJob } from './snapshotJob';
+import { resumeStaleSnapshotJob } from './snapshotJob';
 import { createSnapshotRoutes } from './snapshotRoutes';
+import { createCalendarRoutes } from './calendarRoutes';
+import { createSectorRoutes } from './sectorRoutes';
+import { getSectorTaxonomy } from './sectors';
+import { getDefaultBinEdges } from './snapshotStats';
+import { initUpstreamQuota } from './upstreamQuota';
+import { createQuotaRoutes } from './quotaRoutes';
+import { SnapshotScheduler } from './snapshotSchedule';
+import { getUniverses } from './universes';
+import { createUniverseRoutes } from './universeRoutes';
+import { closeSnapshotEvents } from './snapshotEvents';
 
 export interface AppComponents {
     app: Express;
@@ -20,6 +29,11 @@ async function createApp(): Promise<AppComponents> {
     const app = express();
     const PORT = config.port;
 
+    // Fail fast on a broken sector taxonomy, universe file or stats bins
+    getSectorTaxonomy();
+    getUniverses();
+    getDefaultBinEdges();
+
     // Security middleware
     app.use(helmet());
 
@@ -60,12 +74,30 @@ async function createApp(): Promise<AppComponents> {
 
     await redisClient.connect();
 
+    // Share the vendor budget between user lookups and the snapshot job
+    const upstreamQuota = initUpstreamQuota(redisClient);
+
+    // Pick up a snapshot run interrupted by a crash, deploy or restart
+    resumeStaleSnapshotJob(redisClient).catch(err =>
+        console.error('[snapshot] Failed to resume interrupted job:', err)
+    );
+
+    const scheduler = new SnapshotScheduler(redisClient);
+
     // ── Routes ─────────────────────────────────────────────────────────────────
     app.get('/health', (_, res) => { res.json({ status: 'ok', timestamp: new Date().toISOString() }); });
 
     app.use('/api/stocks', createStockRoutes(redisClient));
 
-    app.use('/api/snapshot', createSnapshotRoutes(redisClient));
+    app.use('/api/snapshot', createSnapshotRoutes(redisClient, scheduler));
+
+    app.use('/api/sectors', createSectorRoutes());
+
+    app.use('/api/quota', createQuotaRoutes(upstreamQuota));
+
+    app.use('/api/universes', createUniverseRoutes(redisClient));
+
+    app.use('/api', createCalendarRoutes(redisClient));
 
     // 404 handler
     app.use((_, res) => {
@@ -78,19 +110,18 @@ async function createApp(): Promise<AppComponents> {
     // Global error handler
     app.use(errorHandler);
 
-    // ── Cron: rebuild snapshot every night at 2 AM ─────────────────────────────
-    cron.schedule('0 2 * * *', () => {
-        console.log('[cron] Triggering nightly snapshot job...');
-        runSnapshotJob(redisClient).catch(err =>
-            console.error('[cron] Snapshot job failed:', err)
-        );
-    });
-    console.log('⏰ Nightly snapshot job scheduled for 02:00');
+    // ── Cron: rebuild the snapshot on the configured schedule ──────────────────
+    // Defaults to 02:00 nightly (SNAPSHOT_CRON / SNAPSHOT_TIMEZONE); every
+    // replica schedules it and the first to claim each fire time runs it
+    await scheduler.start();
 
     // ── Server ─────────────────────────────────────────────────────────────────
     const shutdown = async () => {
         console.log('\nShutting down gracefully...');
 
+        scheduler.stop();
+        await closeSnapshotEvents();
+
         await redisClient.quit();
         console.log('Redis connection closed');
 
@@ -0,0 +1,139 @@
+import type { CalendarEvent, DividendHistory, StockData } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const ICS_PRODUCT_ID = '-//dividend-yield-info//Dividend Calendar//EN';
+const ICS_UID_DOMAIN = 'dividend-yield-info';
+const ICS_MAX_LINE_OCTETS = 75; // RFC 5545 §3.1
+
+// ─── Event list ───────────────────────────────────────────────────────────────
+
+/**
+ * Collect ex-dividend and payment dates between from and to (inclusive,
+ * YYYY-MM-DD). The OVERVIEW dates cover the next announced payment; the
+ * history covers everything else that is cached.
+ */
+export function buildCalendarEvents(
+    stocks: Pick<StockData, 'ticker' | 'name' | 'exDividendDate' | 'dividendDate'>[],
+    histories: Map<string, DividendHistory>,
+    from: string,
+    to: string
+): CalendarEvent[] {
+    const events = new Map<string, CalendarEvent>();
+
+    const add = (event: CalendarEvent) => {
+        if (event.date < from || event.date > to) return;
+
+        const key = `${event.ticker}|${event.type}|${event.date}`;
+        const existing = events.get(key);
+
+        // History rows carry the exact amount; prefer them over the OVERVIEW guess
+        if (!existing || (existing.amount === null && event.amount !== null)) {
+            events.set(key, event);
+        }
+    };
+
+    for (const stock of stocks) {
+        const history = histories.get(stock.ticker);
+
+        for (const payment of history?.payments ?? []) {
+            add({ ticker: stock.ticker, name: stock.name, type: 'ex-dividend', date: payment.exDate, amount: payment.amount });
+            if (payment.payDate) {
+                add({ ticker: stock.ticker, name: stock.name, type: 'payment', date: payment.payDate, amount: payment.amount });
+            }
+        }
+
+        // DividendPerShare is annual, so it can't stand in for a single payment
+        if (stock.exDividendDate) {
+            add({ ticker: stock.ticker, name: stock.name, type: 'ex-dividend', date: stock.exDividendDate, amount: null });
+        }
+        if (stock.dividendDate) {
+            add({ ticker: stock.ticker, name: stock.name, type: 'payment', date: stock.dividendDate, amount: null });
+        }
+    }
+
+    return [...events.values()].sort((a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.ticker.localeCompare(b.ticker) ||
+        a.type.localeCompare(b.type)
+    );
+}
+
+// ─── iCalendar ────────────────────────────────────────────────────────────────
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split long content lines; continuation lines start with a single space
+ */
+function foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= ICS_MAX_LINE_OCTETS) return line;
+
+    const parts: string[] = [];
+    let current = '';
+
+    for (const char of line) {
+        const limit = parts.length === 0 ? ICS_MAX_LINE_OCTETS : ICS_MAX_LINE_OCTETS - 1;
+        if (Buffer.byteLength(current + char) > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function toICalDate(date: string): string {
+    return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Render events as an all-day iCalendar feed
+ */
+export function toICalendar(events: CalendarEvent[], generatedAt: Date = new Date()): string {
+    const stamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${ICS_PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Dividend Calendar',
+    ];
+
+    for (const event of events) {
+        const label = event.type === 'ex-dividend' ? 'ex-dividend' : 'dividend payment';
+        const amount = event.amount !== null ? ` ($${Number(event.amount.toFixed(4))})` : '';
+
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.ticker}-${event.type}-${event.date}@${ICS_UID_DOMAIN}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+            `DTEND;VALUE=DATE:${toICalDate(nextDay(event.date))}`,
+            `SUMMARY:${escapeText(`${event.ticker} ${label}${amount}`)}`,
+            `DESCRIPTION:${escapeText(event.name)}`,
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT',
+        );
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,185 @@
+import express, { Request, Response, Router } from 'express';
+import { RedisClientType } from 'redis';
+import rateLimit from 'express-rate-limit';
+import { buildCalendarEvents, toICalendar } from './calendar';
+import { getCachedDividendHistories, getCachedStocks } from './dataFetcher';
+import { getSnapshot } from './snapshotJob';
+import type { CalendarEvent } from './types';
+
+const DEFAULT_WINDOW_DAYS = 90;
+const MAX_WINDOW_DAYS = 366;
+const MAX_TICKERS = 50;
+
+const calendarLimiter = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 30,
+    message: { error: 'RATE_LIMIT', message: 'Too many calendar requests, please slow down.' },
+});
+
+interface CalendarQuery {
+    from: string;
+    to: string;
+    tickers: string[] | null; // null = whole snapshot universe
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Validate ?from=&to=&tickers=. Returns an error message instead when malformed.
+ */
+function parseCalendarQuery(query: Request['query']): CalendarQuery | string {
+    const today = new Date();
+    const defaultTo = new Date(today);
+    defaultTo.setUTCDate(defaultTo.getUTCDate() + DEFAULT_WINDOW_DAYS);
+
+    const from = query.from ?? isoDate(today);
+    const to = query.to ?? isoDate(defaultTo);
+
+    if (typeof from !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(from) || isNaN(Date.parse(from))) {
+        return 'from must be a date in YYYY-MM-DD format';
+    }
+    if (typeof to !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(to) || isNaN(Date.parse(to))) {
+        return 'to must be a date in YYYY-MM-DD format';
+    }
+    if (to < from) {
+        return 'to must not be before from';
+    }
+    if ((Date.parse(to) - Date.parse(from)) / 86_400_000 > MAX_WINDOW_DAYS) {
+        return `Date range cannot exceed ${MAX_WINDOW_DAYS} days`;
+    }
+
+    if (query.tickers === undefined) {
+        return { from, to, tickers: null };
+    }
+
+    if (typeof query.tickers !== 'string') {
+        return 'tickers must be a comma-separated list';
+    }
+
+    const tickers = [...new Set(
+        query.tickers.split(',').map(t => t.trim().toUpperCase()).filter(Boolean)
+    )];
+
+    if (tickers.length === 0) {
+        return 'tickers cannot be empty';
+    }
+    if (tickers.length > MAX_TICKERS) {
+        return `Maximum ${MAX_TICKERS} tickers per calendar request`;
+    }
+
+    const invalidTickers = tickers.filter(t => !/^[A-Z][A-Z0-9.\-]{0,9}$/.test(t));
+    if (invalidTickers.length > 0) {
+        return `Invalid ticker format: ${invalidTickers.join(', ')}`;
+    }
+
+    return { from, to, tickers };
+}
+
+/**
+ * Events for an explicit ticker list, from cached data only so a calendar
+ * request never spends upstream quota: each stock's cached lookup, else
+ * its snapshot entry. Tickers with neither are left out.
+ */
+async function eventsForTickers(
+    redisClient: RedisClientType,
+    { from, to, tickers }: CalendarQuery & { tickers: string[] }
+): Promise<CalendarEvent[]> {
+    const stocks = await getCachedStocks(redisClient, tickers);
+
+    const uncached = new Set(tickers.filter(ticker => !stocks.has(ticker)));
+    if (uncached.size > 0) {
+        const snapshot = await getSnapshot(redisClient) ?? [];
+        snapshot.filter(entry => uncached.has(entry.ticker)).forEach(entry => stocks.set(entry.ticker, entry));
+    }
+
+    const payers = [...stocks.values()].filter(stock => stock.yield > 0);
+    const histories = await getCachedDividendHistories(redisClient, payers.map(stock => stock.ticker));
+
+    return buildCalendarEvents(payers, histories, from, to);
+}
+
+/**
+ * Events for every stock in the snapshot, from cached data only
+ */
+async function eventsForSnapshot(
+    redisClient: RedisClientType,
+    { from, to }: CalendarQuery
+): Promise<CalendarEvent[] | null> {
+    const snapshot = await getSnapshot(redisClient);
+    if (!snapshot) return null;
+
+    const histories = await getCachedDividendHistories(redisClient, snapshot.map(s => s.ticker));
+    return buildCalendarEvents(snapshot, histories, from, to);
+}
+
+export function createCalendarRoutes(redisClient: RedisClientType): Router {
+    const router = express.Router();
+
+    const loadEvents = async (req: Request, res: Response): Promise<CalendarEvent[] | null> => {
+        const query = parseCalendarQuery(req.query);
+        if (typeof query === 'string') {
+            res.status(400).json({ error: 'VALIDATION_ERROR', message: query });
+            return null;
+        }
+
+        const events = query.tickers
+            ? await eventsForTickers(redisClient, { ...query, tickers: query.tickers })
+            : await eventsForSnapshot(redisClient, query);
+
+        if (!events) {
+            res.status(404).json({
+                error: 'NOT_READY',
+                message: 'No snapshot available. Pass ?tickers= or build a snapshot first.',
+            });
+            return null;
+        }
+
+        return events;
+    };
+
+    /**
+     * GET /api/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD&tickers=KO,PEP
+     * Upcoming ex-dividend and payment dates from cached data. Without
+     * tickers the whole snapshot universe is used.
+     */
+    router.get('/calendar', calendarLimiter, async (req: Request, res: Response) => {
+        try {
+            const events = await loadEvents(req, res);
+            if (!events) return;
+
+            res.json({
+                success: true,
+                data: events,
+                count: events.length,
+            });
+        } catch (error) {
+            console.error('Error building calendar:', error);
+            res.status(500).json({
+                error: 'INTERNAL_ERROR',
+                message: 'Failed to build dividend calendar',
+            });
+        }
+    });
+
+    /**
+     * GET /api/calendar.ics — same query, as a subscribable iCalendar feed
+     */
+    router.get('/calendar.ics', calendarLimiter, async (req: Request, res: Response) => {
+        try {
+            const events = await loadEvents(req, res);
+            if (!events) return;
+
+            res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+            res.setHeader('Content-Disposition', 'inline; filename="dividends.ics"');
+            res.send(toICalendar(events));
+        } catch (error) {
+            console.error('Error building calendar feed:', error);
+            res.status(500).json({
+                error: 'INTERNAL_ERROR',
+                message: 'Failed to build dividend calendar',
+            });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import zlib from 'node:zlib';
+import express from 'express';
+import { sendJson, sendNotModified, type CacheValidators } from './conditionalResponse';
+
+const validators: CacheValidators = {
+    etag: 'W/"1-run-1-1760839200000"',
+    lastModified: new Date('2026-10-19T02:00:00.000Z'),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+// Large enough to be compressed
+const body = { success: true, data: Array.from({ length: 500 }, (_, i) => ({ ticker: `T${i}`, yield: i / 10 })) };
+
+interface RawResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+/**
+ * Plain http.get, so nothing adds or strips caching and encoding headers
+ */
+function get(url: string, headers: Record<string, string> = {}): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+        http.get(url, { headers }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks) }));
+        }).on('error', reject);
+    });
+}
+
+describe('conditional responses', () => {
+    let server: http.Server;
+    let url: string;
+
+    before(async () => {
+        const app = express();
+        app.get('/snapshot', async (req, res) => {
+            if (sendNotModified(req, res, validators)) return;
+            await sendJson(req, res, body, validators);
+        });
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/snapshot`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    it('sends validators and a Cache-Control matching the expiry', async () => {
+        const res = await get(url);
+
+        assert.equal(res.status, 200);
+        assert.equal(res.headers.etag, validators.etag);
+        assert.equal(res.headers['last-modified'], validators.lastModified.toUTCString());
+
+        const maxAge = Number(/max-age=(\d+)/.exec(res.headers['cache-control']!)?.[1]);
+        assert.ok(maxAge > 3500 && maxAge <= 3600, `max-age was ${maxAge}`);
+        assert.deepEqual(JSON.parse(res.body.toString()), body);
+    });
+
+    it('answers a matching If-None-Match with an empty 304 and the same headers', async () => {
+        const full = await get(url);
+        const res = await get(url, { 'If-None-Match': validators.etag });
+
+        assert.equal(res.status, 304);
+        assert.equal(res.body.length, 0);
+        assert.equal(res.headers.etag, full.headers.etag);
+        assert.equal(res.headers.vary, full.headers.vary);
+        assert.equal(res.headers['cache-control'], full.headers['cache-control']);
+    });
+
+    it('answers a current If-Modified-Since with 304', async () => {
+        const res = await get(url, { 'If-Modified-Since': new Date('2026-10-19T03:00:00.000Z').toUTCString() });
+
+        assert.equal(res.status, 304);
+    });
+
+    it('sends the full body for a different ETag', async () => {
+        const res = await get(url, { 'If-None-Match': 'W/"1-run-0-1760752800000"' });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(JSON.parse(res.body.toString()), body);
+    });
+
+    it('compresses with brotli or gzip when accepted', async () => {
+        const br = await get(url, { 'Accept-Encoding': 'br' });
+        assert.equal(br.headers['content-encoding'], 'br');
+        assert.equal(br.headers.vary, 'Accept-Encoding');
+        assert.deepEqual(JSON.parse(zlib.brotliDecompressSync(br.body).toString()), body);
+
+        const gzip = await get(url, { 'Accept-Encoding': 'gzip' });
+        assert.equal(gzip.headers['content-encoding'], 'gzip');
+        assert.deepEqual(JSON.parse(zlib.gunzipSync(gzip.body).toString()), body);
+    });
+});
@@ -0,0 +1,109 @@
+import type { Request, Response } from 'express';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Bodies smaller than this go out uncompressed
+const MIN_COMPRESS_BYTES = 1024;
+
+// Brotli's default quality (11) takes seconds on a full snapshot
+const BROTLI_QUALITY = 5;
+
+// Encoded bodies kept per process, so repeat requests for the same
+// version skip serialising and compressing
+const ENCODED_CACHE_SIZE = 16;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CacheValidators {
+    etag: string;
+    lastModified: Date;
+    expiresAt: Date;          // Clients may reuse the response until then
+}
+
+type Encoding = 'br' | 'gzip' | 'identity';
+
+interface EncodedBody {
+    body: Buffer;
+    encoding: Encoding;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+const encodedBodies = new Map<string, EncodedBody>();
+
+async function encodeJson(body: unknown, encoding: Encoding): Promise<EncodedBody> {
+    const json = Buffer.from(JSON.stringify(body));
+    if (encoding === 'identity' || json.length < MIN_COMPRESS_BYTES) return { body: json, encoding: 'identity' };
+
+    const compressed = encoding === 'br'
+        ? await brotliCompress(json, {
+            params: {
+                [zlib.constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY,
+                [zlib.constants.BROTLI_PARAM_SIZE_HINT]: json.length,
+            },
+        })
+        : await gzip(json);
+
+    return { body: compressed, encoding };
+}
+
+function rememberEncoded(key: string, encoded: EncodedBody): void {
+    encodedBodies.delete(key);
+    encodedBodies.set(key, encoded);
+
+    // Map keeps insertion order, so the first key is the least recently used
+    if (encodedBodies.size > ENCODED_CACHE_SIZE) {
+        encodedBodies.delete(encodedBodies.keys().next().value!);
+    }
+}
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+/**
+ * Set ETag, Last-Modified and Cache-Control, then answer 304 if the
+ * client's copy is still current. Returns whether it did.
+ */
+export function sendNotModified(req: Request, res: Response, validators: CacheValidators): boolean {
+    const maxAge = Math.max(0, Math.floor((validators.expiresAt.getTime() - Date.now()) / 1000));
+
+    // Same headers on the 304 as on the full response
+    res.vary('Accept-Encoding');
+    res.setHeader('ETag', validators.etag);
+    res.setHeader('Last-Modified', validators.lastModified.toUTCString());
+    res.setHeader('Cache-Control', `public, max-age=${maxAge}`);
+
+    if (!req.fresh) return false;
+
+    res.status(304).end();
+    return true;
+}
+
+/**
+ * Send JSON, brotli- or gzip-compressed when the client accepts it.
+ * Pass the validators the response was sent with to reuse the encoded
+ * body for later requests of the same URL and version.
+ */
+export async function sendJson(
+    req: Request,
+    res: Response,
+    body: unknown,
+    validators?: CacheValidators
+): Promise<void> {
+    const accepted = (req.acceptsEncodings('br', 'gzip', 'identity') || 'identity') as Encoding;
+    const key = validators && `${validators.etag} ${req.originalUrl} ${accepted}`;
+
+    let encoded = key ? encodedBodies.get(key) : undefined;
+    if (!encoded) encoded = await encodeJson(body, accepted);
+    if (key) rememberEncoded(key, encoded);
+
+    res.vary('Accept-Encoding');
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    if (encoded.encoding !== 'identity') res.setHeader('Content-Encoding', encoded.encoding);
+    res.setHeader('Content-Length', encoded.body.length);
+    res.end(encoded.body);
+}
@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import type { MarketDataProviderName, SnapshotMode } from '../types';
 
 dotenv.config();
 
@@ -7,6 +8,43 @@ interface Config {
   redisUrl: string;
   alphaVantageAPIKey: string;
   nodeEnv: string;
+  marketDataProvider: MarketDataProviderName;
+  fixtureDataDir: string;
+  snapshotRetentionDays: number;
+  sectorTaxonomyFile: string;
+  snapshotMode: SnapshotMode;
+  payerMaxAgeHours: number;
+  nonPayerMaxAgeHours: number;
+  upstreamRequestsPerMinute: number;
+  upstreamRequestsPerDay: number;
+  snapshotCron: string;
+  snapshotTimezone: string;
+  snapshotUniverse: string;
+  universeFile: string;
+  statsYieldBins: string;
+}
+
+function parseProviderName(value: string | undefined): MarketDataProviderName {
+  switch ((value || 'alphavantage').toLowerCase()) {
+    case 'alphavantage':
+      return 'alphavantage';
+    case 'fixture':
+      return 'fixture';
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${value}". Use "alphavantage" or "fixture".`);
+  }
+}
+
+// Full rebuilds unless SNAPSHOT_MODE=incremental opts in
+function parseSnapshotMode(value: string | undefined): SnapshotMode {
+  switch ((value || 'full').toLowerCase()) {
+    case 'full':
+      return 'full';
+    case 'incremental':
+      return 'incremental';
+    default:
+      throw new Error(`Unknown SNAPSHOT_MODE "${value}". Use "full" or "incremental".`);
+  }
 }
 
 const config: Config = {
@@ -14,6 +52,25 @@ const config: Config = {
   redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
   alphaVantageAPIKey: process.env.ALPHA_VANTAGE_API_KEY || "",
   nodeEnv: process.env.NODE_ENV || 'development',
+  marketDataProvider: parseProviderName(process.env.MARKET_DATA_PROVIDER),
+  fixtureDataDir: process.env.FIXTURE_DATA_DIR || './fixtures',
+  snapshotRetentionDays: Number(process.env.SNAPSHOT_RETENTION_DAYS) || 90,
+  sectorTaxonomyFile: process.env.SECTOR_TAXONOMY_FILE || '', // Empty = bundled config/sectors.json
+  snapshotMode: parseSnapshotMode(process.env.SNAPSHOT_MODE),
+  // Incremental runs refetch payers after a day, everything else after a week
+  payerMaxAgeHours: Number(process.env.SNAPSHOT_PAYER_MAX_AGE_HOURS) || 24,
+  nonPayerMaxAgeHours: Number(process.env.SNAPSHOT_NON_PAYER_MAX_AGE_HOURS) || 7 * 24,
+  // Alpha Vantage budget shared by every process. Free tier: 25/day; premium up to 75/min.
+  upstreamRequestsPerMinute: Number(process.env.AV_REQUESTS_PER_MINUTE) || 60,
+  upstreamRequestsPerDay: Number(process.env.AV_REQUESTS_PER_DAY) || 0, // 0 = no daily cap
+  // Defaults for the snapshot schedule; /api/snapshot/schedule overrides them at runtime
+  snapshotCron: process.env.SNAPSHOT_CRON || '0 2 * * *',
+  snapshotTimezone: process.env.SNAPSHOT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  // Universe scheduled runs use, and whose snapshot GET /api/snapshot serves by default
+  snapshotUniverse: process.env.SNAPSHOT_UNIVERSE || 'all',
+  universeFile: process.env.SNAPSHOT_UNIVERSE_FILE || '', // Empty = bundled config/universes.json
+  // Yield histogram edges (percent) for GET /api/snapshot/stats
+  statsYieldBins: process.env.SNAPSHOT_STATS_BINS || '0,1,2,3,4,5,6,8,10,15',
 };
 
-export default config;
\ No newline at end of file
+export default config;
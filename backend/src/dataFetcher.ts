@@ -1,206 +1,63 @@
 import { type RedisClientType } from 'redis';
-import config from './config/config';
-import { NetworkError, RateLimitError, ValidationError, SECTickerResponse, StockData, AlphaVantageResponse } from './types';
+import { sleep } from './http';
+import { computeDividendGrowth } from './dividendAnalytics';
+import { getMarketDataProvider } from './providers';
+import { getTickerRecord, refreshTickerRegistry } from './tickerRegistry';
+import { NetworkError, RateLimitError, ValidationError, StockData, MarketDataProvider, DividendGrowth, DividendHistory, type FetchErrorCode } from './types';
 
 // Configuration constants
-const TICKER_EXPIRY_TIME = 1209600; // 2 weeks in seconds
 const STOCK_DATA_EXPIRY_TIME = 3600; // 1 hour in seconds
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000; // 1 second
-const MAX_RETRY_DELAY = 10000; // 10 seconds
-const REQUEST_TIMEOUT = 10000; // 10 seconds
+const DIVIDEND_HISTORY_EXPIRY_TIME = 7 * 86400; // 7 days in seconds; refetched sooner once OVERVIEW shows a newer ex-date
 
 /**
- * Sleep utility for retry delays
+ * Classify a thrown error by the code fetchers report it under
  */
-const sleep = (ms: number): Promise<void> =>
-    new Promise(resolve => setTimeout(resolve, ms));
-
-/**
- * Calculate exponential backoff delay
- */
-function getRetryDelay(attempt: number): number {
-    const delay = Math.min(
-        INITIAL_RETRY_DELAY * Math.pow(2, attempt),
-        MAX_RETRY_DELAY
-    );
-    // Add jitter to prevent thundering herd
-    return delay + Math.random() * 1000;
+export function errorCodeOf(error: unknown): FetchErrorCode {
+    if (error instanceof RateLimitError) return 'RATE_LIMIT';
+    if (error instanceof ValidationError) return 'VALIDATION_ERROR';
+    if (error instanceof NetworkError) return 'NETWORK_ERROR';
+    return 'UNKNOWN_ERROR';
 }
 
 /**
- * Fetch with timeout
+ * Convert a thrown error into the structured error JSON fetchers return
  */
-async function fetchWithTimeout(
-    url: string,
-    options: RequestInit = {},
-    timeout: number = REQUEST_TIMEOUT
-): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+function toErrorJSON(error: unknown): string {
+    const code = errorCodeOf(error);
 
-    try {
-        const response = await fetch(url, {
-            ...options,
-            signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-        return response;
-    } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new NetworkError('Request timeout');
-        }
-        throw error;
-    }
-}
-
-/**
- * Fetch with retry logic and exponential backoff
- */
-async function fetchWithRetry<T>(
-    url: string,
-    options: RequestInit = {},
-    parseResponse: (res: Response) => Promise<T>,
-    maxRetries: number = MAX_RETRIES
-): Promise<T> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-            const response = await fetchWithTimeout(url, options);
-
-            // Handle rate limiting
-            if (response.status === 429) {
-                const retryAfter = response.headers.get('Retry-After');
-                const delay = retryAfter
-                    ? parseInt(retryAfter) * 1000
-                    : getRetryDelay(attempt);
-
-                if (attempt < maxRetries) {
-                    console.warn(`Rate limited, retrying after ${delay}ms...`);
-                    await sleep(delay);
-                    continue;
-                }
-                throw new RateLimitError('API rate limit exceeded');
-            }
-
-            // Handle server errors (5xx) with retry
-            if (response.status >= 500 && response.status < 600) {
-                if (attempt < maxRetries) {
-                    const delay = getRetryDelay(attempt);
-                    console.warn(`Server error ${response.status}, retrying after ${delay}ms...`);
-                    await sleep(delay);
-                    continue;
-                }
-                throw new NetworkError(`Server error: ${response.status}`);
-            }
-
-            // Handle client errors (4xx) without retry
-            if (response.status >= 400 && response.status < 500) {
-                throw new ValidationError(`Client error: ${response.status} - ${response.statusText}`);
-            }
-
-            // Success - parse and return
-            if (response.ok) {
-                return await parseResponse(response);
-            }
-
-            throw new NetworkError(`Unexpected status: ${response.status}`);
-
-        } catch (error) {
-            lastError = error as Error;
-
-            // Don't retry on validation errors or non-network errors
-            if (error instanceof ValidationError ||
-                error instanceof RateLimitError ||
-                (error instanceof Error && error.name !== 'NetworkError' && error.message !== 'Request timeout')) {
-                throw error;
-            }
-
-            // Retry on network errors
-            if (attempt < maxRetries) {
-                const delay = getRetryDelay(attempt);
-                console.warn(`Network error on attempt ${attempt + 1}/${maxRetries + 1}: ${error}. Retrying after ${delay}ms...`);
-                await sleep(delay);
-            }
-        }
+    switch (code) {
+        case 'RATE_LIMIT':
+            return JSON.stringify({
+                error: code,
+                message: 'API rate limit exceeded. Please try again later.',
+            });
+        case 'VALIDATION_ERROR':
+            return JSON.stringify({
+                error: code,
+                message: (error as ValidationError).message,
+            });
+        case 'NETWORK_ERROR':
+            return JSON.stringify({
+                error: code,
+                message: 'Network error occurred. Please try again.',
+            });
+        default:
+            // Generic error
+            return JSON.stringify({
+                error: code,
+                message: 'An unexpected error occurred.',
+            });
     }
-
-    throw lastError || new NetworkError('Max retries exceeded');
 }
 
 /**
- * Fetch tickers from SEC
+ * Fetch stock fundamentals through the configured market data provider
  */
-async function fetchTickers(): Promise<string[]> {
-    const response = await fetchWithRetry<SECTickerResponse>(
-        'https://www.sec.gov/files/company_tickers.json',
-        {
-            headers: {
-                'User-Agent': 'Sample Company Name AdminContact@gmail.com',
-                'Accept': 'application/json',
-            },
-        },
-        async (res) => res.json() as Promise<SECTickerResponse>
-    );
-
-    // Extract tickers correctly
-    const tickers = Object.values(response).map(item => item.ticker);
-    return tickers;
-}
-
-/**
- * Fetch stock fundamentals from Alpha Vantage
- */
-export async function fetchStockFundamentals(ticker: string): Promise<StockData> {
-    if (!config.alphaVantageAPIKey) {
-        throw new Error('ALPHA_VANTAGE_API_KEY environment variable not set');
-    }
-
-    const url = `https://www.alphavantage.co/query?function=OVERVIEW&symbol=${encodeURIComponent(ticker)}&apikey=${process.env.ALPHA_VANTAGE_API_KEY}`;
-
-    const response = await fetchWithRetry<AlphaVantageResponse>(
-        url,
-        {
-            headers: {
-                'Accept': 'application/json',
-            },
-        },
-        async (res) => res.json() as Promise<AlphaVantageResponse>
-    );
-
-    // Handle Alpha Vantage specific errors
-    if (response['Error Message']) {
-        throw new ValidationError(`Invalid ticker symbol: ${ticker}`);
-    }
-
-    if (response.Note) {
-        // API rate limit message
-        throw new RateLimitError('Alpha Vantage API rate limit reached');
-    }
-
-    // Validate required fields
-    if (!response.Symbol) {
-        throw new ValidationError(`No data found for ticker: ${ticker}`);
-    }
-
-    // Parse dividend yield
-    let dividendYield = 0;
-    if (response.DividendYield && response.DividendYield !== 'None' && response.DividendYield !== '-') {
-        const parsed = parseFloat(response.DividendYield);
-        if (!isNaN(parsed)) {
-            // Alpha Vantage returns decimal (0.05 for 5%), convert to percentage
-            dividendYield = parsed * 100;
-        }
-    }
-
-    return {
-        ticker: response.Symbol,
-        name: response.Symbol, 
-        sector: response.Sector ? getSectorTranslation(response.Sector) : 'Unknown',
-        yield: dividendYield,
-    };
+export async function fetchStockFundamentals(
+    ticker: string,
+    provider: MarketDataProvider = getMarketDataProvider()
+): Promise<StockData> {
+    return provider.fetchFundamentals(ticker);
 }
 
 /**
@@ -208,7 +65,8 @@ export async function fetchStockFundamentals(ticker: string): Promise<StockData>
  */
 export async function fetcher(
     key: string,
-    redisClient: RedisClientType
+    redisClient: RedisClientType,
+    provider: MarketDataProvider = getMarketDataProvider()
 ): Promise<string> {
     try {
         // Validate input
@@ -225,20 +83,25 @@ export async function fetcher(
 
         console.log(`Cache miss for key: ${key}`);
 
-        // Fetch tickers
+        // Fetch tickers (also rebuilds the registry and caches the list)
         if (key === 'tickers') {
-            const tickers = await fetchTickers();
-            const tickersJSON = JSON.stringify(tickers);
+            const records = await refreshTickerRegistry(redisClient, provider);
+            return JSON.stringify(records.map(record => record.ticker));
+        }
 
-            await redisClient.set('tickers', tickersJSON, {
-                EX: TICKER_EXPIRY_TIME,
-            });
+        // Fetch stock data
+        const stockData = await fetchStockFundamentals(key, provider);
 
-            return tickersJSON;
+        // Prefer the registered company name over whatever the vendor sent
+        const record = await getTickerRecord(redisClient, key);
+        if (record) {
+            stockData.name = record.name;
         }
 
-        // Fetch stock data
-        const stockData = await fetchStockFundamentals(key);
+        // Growth comes from an already-cached history only, so a lookup
+        // costs one upstream call; snapshot runs keep those histories warm
+        stockData.growth = await fetchDividendGrowth(stockData, redisClient, provider, { cachedOnly: true });
+
         const stockDataJSON = JSON.stringify(stockData);
 
         // Cache the result
@@ -250,44 +113,144 @@ export async function fetcher(
 
     } catch (error) {
         console.error(`Error fetching data for key "${key}":`, error);
+        return toErrorJSON(error);
+    }
+}
 
-        // Return structured error responses
-        if (error instanceof RateLimitError) {
-            return JSON.stringify({
-                error: 'RATE_LIMIT',
-                message: 'API rate limit exceeded. Please try again later.',
-            });
-        }
+/**
+ * Stock data already cached by the fetcher, keyed by ticker. Never calls
+ * upstream; tickers with nothing cached are left out.
+ */
+export async function getCachedStocks(
+    redisClient: RedisClientType,
+    tickers: string[]
+): Promise<Map<string, StockData>> {
+    const stocks = new Map<string, StockData>();
+    if (tickers.length === 0) return stocks;
 
-        if (error instanceof ValidationError) {
-            return JSON.stringify({
-                error: 'VALIDATION_ERROR',
-                message: error.message,
-            });
-        }
+    const raw = await redisClient.mGet(tickers);
+    raw.forEach((value, i) => {
+        if (value) stocks.set(tickers[i], JSON.parse(value) as StockData);
+    });
 
-        if (error instanceof NetworkError) {
-            return JSON.stringify({
-                error: 'NETWORK_ERROR',
-                message: 'Network error occurred. Please try again.',
-            });
+    return stocks;
+}
+
+/**
+ * Redis key a ticker's payment history is cached under
+ */
+export function dividendHistoryKey(ticker: string): string {
+    return `dividends:${ticker.toUpperCase()}`;
+}
+
+/**
+ * Read the payment histories already in the cache, without calling the provider
+ */
+export async function getCachedDividendHistories(
+    redisClient: RedisClientType,
+    tickers: string[],
+    chunkSize: number = 1000
+): Promise<Map<string, DividendHistory>> {
+    const histories = new Map<string, DividendHistory>();
+
+    for (let i = 0; i < tickers.length; i += chunkSize) {
+        const chunk = tickers.slice(i, i + chunkSize);
+        const raw = await redisClient.mGet(chunk.map(dividendHistoryKey));
+
+        raw.forEach(value => {
+            if (value) {
+                const history = JSON.parse(value) as DividendHistory;
+                histories.set(history.ticker, history);
+            }
+        });
+    }
+
+    return histories;
+}
+
+/**
+ * Dividend payment history with Redis caching
+ */
+export async function dividendFetcher(
+    ticker: string,
+    redisClient: RedisClientType,
+    provider: MarketDataProvider = getMarketDataProvider()
+): Promise<string> {
+    const key = dividendHistoryKey(ticker);
+
+    try {
+        const cachedValue = await redisClient.get(key);
+        if (cachedValue) {
+            console.log(`Cache hit for key: ${key}`);
+            return cachedValue;
         }
 
-        // Generic error
-        return JSON.stringify({
-            error: 'UNKNOWN_ERROR',
-            message: 'An unexpected error occurred.',
+        console.log(`Cache miss for key: ${key}`);
+
+        const history = await provider.fetchDividendHistory(ticker.toUpperCase());
+        const historyJSON = JSON.stringify(history);
+
+        await redisClient.set(key, historyJSON, {
+            EX: DIVIDEND_HISTORY_EXPIRY_TIME,
         });
+
+        return historyJSON;
+
+    } catch (error) {
+        console.error(`Error fetching data for key "${key}":`, error);
+        return toErrorJSON(error);
     }
 }
 
+/**
+ * Whether a history already has the latest ex-date OVERVIEW reports
+ */
+function coversExDate(history: DividendHistory, exDividendDate: string | null): boolean {
+    const latest = history.payments[history.payments.length - 1]?.exDate;
+    return exDividendDate === null || (latest !== undefined && latest >= exDividendDate);
+}
+
+/**
+ * Growth analytics from the cached payment history. The history is only
+ * refetched when missing or when OVERVIEW shows a dividend it lacks, and
+ * never with `cachedOnly`. Non-payers and histories that fail to load
+ * yield null rather than failing the caller.
+ */
+export async function fetchDividendGrowth(
+    stockData: StockData,
+    redisClient: RedisClientType,
+    provider: MarketDataProvider = getMarketDataProvider(),
+    { cachedOnly = false }: { cachedOnly?: boolean } = {}
+): Promise<DividendGrowth | null> {
+    if (stockData.yield <= 0) return null;
+
+    const key = dividendHistoryKey(stockData.ticker);
+    const cachedValue = await redisClient.get(key);
+    let history = cachedValue ? (JSON.parse(cachedValue) as DividendHistory) : null;
+
+    if (!cachedOnly && (!history || !coversExDate(history, stockData.exDividendDate))) {
+        try {
+            history = await provider.fetchDividendHistory(stockData.ticker.toUpperCase());
+            await redisClient.set(key, JSON.stringify(history), {
+                EX: DIVIDEND_HISTORY_EXPIRY_TIME,
+            });
+        } catch (error) {
+            // Keep whatever history was cached
+            console.warn(`Could not refresh dividend history for ${stockData.ticker}:`, (error as Error).message);
+        }
+    }
+
+    return history ? computeDividendGrowth(history) : null;
+}
+
 /**
  * Batch fetcher for multiple tickers
  */
 export async function fetchBatch(
     tickers: string[],
     redisClient: RedisClientType,
-    concurrency: number = 5
+    concurrency: number = 5,
+    provider: MarketDataProvider = getMarketDataProvider()
 ): Promise<Map<string, StockData | Error>> {
     const results = new Map<string, StockData | Error>();
 
@@ -297,7 +260,7 @@ export async function fetchBatch(
 
         const promises = batch.map(async (ticker) => {
             try {
-                const data = await fetcher(ticker, redisClient);
+                const data = await fetcher(ticker, redisClient, provider);
                 const parsed = JSON.parse(data);
 
                 if (parsed.error) {
@@ -320,39 +283,3 @@ export async function fetchBatch(
 
     return results;
 }
-
-export function getSectorTranslation(sector: string) {
-    let sectorTranslation;
-
-    switch (sector.toLowerCase()) {
-        case "technology":
-        case "industrials":
-        case "basic materials":
-            sectorTranslation = "Manufacturing";
-            break;
-        case "healthcare":
-        case "financial services":
-        case "communication services":
-            sectorTranslation = "Services"
-            break;
-        case "basic materials":
-            sectorTranslation = "Agriculture"
-            break;
-        case "consumer cyclical":
-        case "consumer defensive":
-            sectorTranslation = "Retail"
-            break;
-        case "real estate":
-            sectorTranslation = "Property"
-            break;
-        case "utilities":
-        case "energy":
-            sectorTranslation = "Energy"
-            break;
-        default:
-            sectorTranslation = "Unknown"
-            break;
-    }
-
-    return sectorTranslation
-}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import type { DividendClassification, DividendGrowth, DividendHistory, StockData } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const CAGR_PERIODS = [1, 3, 5, 10] as const;
+
+// Streak lengths behind the common labels. The official S&P list also
+// requires index membership, which we don't track.
+const KING_MIN_RAISES       = 50;
+const ARISTOCRAT_MIN_RAISES = 25;
+
+// Relative change below which two annual totals count as flat
+const FLAT_TOLERANCE = 1e-6;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Sum payments per calendar year of the ex-date
+ */
+function annualTotals(history: DividendHistory): Map<number, number> {
+    const totals = new Map<number, number>();
+    for (const payment of history.payments) {
+        const year = Number(payment.exDate.slice(0, 4));
+        totals.set(year, (totals.get(year) ?? 0) + payment.amount);
+    }
+    return totals;
+}
+
+function cagr(totals: Map<number, number>, lastYear: number, years: number): number | null {
+    const end = totals.get(lastYear);
+    const start = totals.get(lastYear - years);
+    if (!end || !start) return null;
+
+    return (Math.pow(end / start, 1 / years) - 1) * 100;
+}
+
+/**
+ * Count consecutive years (walking back from lastYear) where compare() holds
+ */
+function streak(
+    totals: Map<number, number>,
+    lastYear: number,
+    compare: (current: number, previous: number) => boolean
+): number {
+    let count = 0;
+
+    for (let year = lastYear; ; year--) {
+        const current = totals.get(year);
+        const previous = totals.get(year - 1);
+        if (!current || !previous || !compare(current, previous)) break;
+        count++;
+    }
+
+    return count;
+}
+
+function classify(consecutiveRaises: number): DividendClassification {
+    if (consecutiveRaises >= KING_MIN_RAISES) return 'king';
+    if (consecutiveRaises >= ARISTOCRAT_MIN_RAISES) return 'aristocrat';
+    return null;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Growth figures from a payment history. Only complete calendar years are
+ * used, so a year with one payment still to come doesn't look like a cut.
+ */
+export function computeDividendGrowth(
+    history: DividendHistory,
+    asOf: Date = new Date()
+): DividendGrowth {
+    const totals = annualTotals(history);
+    const lastYear = asOf.getUTCFullYear() - 1;
+
+    const [cagr1y, cagr3y, cagr5y, cagr10y] = CAGR_PERIODS.map(years => cagr(totals, lastYear, years));
+
+    const consecutiveRaises = streak(totals, lastYear,
+        (current, previous) => current > previous * (1 + FLAT_TOLERANCE));
+    const consecutiveCuts = streak(totals, lastYear,
+        (current, previous) => current < previous * (1 - FLAT_TOLERANCE));
+
+    return {
+        cagr1y,
+        cagr3y,
+        cagr5y,
+        cagr10y,
+        consecutiveRaises,
+        consecutiveCuts,
+        classification: classify(consecutiveRaises),
+    };
+}
+
+// ─── Filtering ────────────────────────────────────────────────────────────────
+
+export interface GrowthFilters {
+    classification?: Exclude<DividendClassification, null>;
+    minRaises?: number;
+    maxCuts?: number;
+    minCagr1y?: number;
+    minCagr3y?: number;
+    minCagr5y?: number;
+    minCagr10y?: number;
+}
+
+/**
+ * Keep stocks whose growth figures satisfy every given filter. Stocks without
+ * growth data never match once any filter is set.
+ */
+export function filterByGrowth<T extends StockData>(stocks: T[], filters: GrowthFilters): T[] {
+    const active = Object.values(filters).some(value => value !== undefined);
+    if (!active) return stocks;
+
+    const atLeast = (value: number | null, min: number | undefined) =>
+        min === undefined || (value !== null && value >= min);
+
+    return stocks.filter(({ growth }) => {
+        if (!growth) return false;
+
+        // A king also qualifies as an aristocrat
+        if (filters.classification === 'aristocrat' && growth.classification === null) return false;
+        if (filters.classification === 'king' && growth.classification !== 'king') return false;
+
+        if (filters.maxCuts !== undefined && growth.consecutiveCuts > filters.maxCuts) return false;
+
+        return atLeast(growth.consecutiveRaises, filters.minRaises) &&
+            atLeast(growth.cagr1y, filters.minCagr1y) &&
+            atLeast(growth.cagr3y, filters.minCagr3y) &&
+            atLeast(growth.cagr5y, filters.minCagr5y) &&
+            atLeast(growth.cagr10y, filters.minCagr10y);
+    });
+}
@@ -0,0 +1,136 @@
+import { NetworkError, RateLimitError, ValidationError } from './types';
+
+// Configuration constants
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 10000; // 10 seconds
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Sleep utility for retry delays
+ */
+export const sleep = (ms: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calculate exponential backoff delay
+ */
+function getRetryDelay(attempt: number): number {
+    const delay = Math.min(
+        INITIAL_RETRY_DELAY * Math.pow(2, attempt),
+        MAX_RETRY_DELAY
+    );
+    // Add jitter to prevent thundering herd
+    return delay + Math.random() * 1000;
+}
+
+/**
+ * Fetch with timeout
+ */
+async function fetchWithTimeout(
+    url: string,
+    options: RequestInit = {},
+    timeout: number = REQUEST_TIMEOUT
+): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+        const response = await fetch(url, {
+            ...options,
+            signal: controller.signal,
+        });
+        clearTimeout(timeoutId);
+        return response;
+    } catch (error) {
+        clearTimeout(timeoutId);
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw new NetworkError('Request timeout');
+        }
+        // fetch reports DNS failures, resets and refused connections as
+        // TypeError('fetch failed'), with the socket error as its cause
+        if (error instanceof TypeError) {
+            throw new NetworkError(`Request failed: ${error.message}`, { cause: error.cause ?? error });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Fetch with retry logic and exponential backoff.
+ * `beforeAttempt` runs ahead of every attempt, retries included, so each
+ * one can be counted against an upstream quota.
+ */
+export async function fetchWithRetry<T>(
+    url: string,
+    options: RequestInit = {},
+    parseResponse: (res: Response) => Promise<T>,
+    maxRetries: number = MAX_RETRIES,
+    beforeAttempt?: () => Promise<void>
+): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+            await beforeAttempt?.();
+            const response = await fetchWithTimeout(url, options);
+
+            // Handle rate limiting
+            if (response.status === 429) {
+                const retryAfter = response.headers.get('Retry-After');
+                const delay = retryAfter
+                    ? parseInt(retryAfter) * 1000
+                    : getRetryDelay(attempt);
+
+                if (attempt < maxRetries) {
+                    console.warn(`Rate limited, retrying after ${delay}ms...`);
+                    await sleep(delay);
+                    continue;
+                }
+                throw new RateLimitError('API rate limit exceeded');
+            }
+
+            // Handle server errors (5xx) with retry
+            if (response.status >= 500 && response.status < 600) {
+                if (attempt < maxRetries) {
+                    const delay = getRetryDelay(attempt);
+                    console.warn(`Server error ${response.status}, retrying after ${delay}ms...`);
+                    await sleep(delay);
+                    continue;
+                }
+                throw new NetworkError(`Server error: ${response.status}`);
+            }
+
+            // Handle client errors (4xx) without retry
+            if (response.status >= 400 && response.status < 500) {
+                throw new ValidationError(`Client error: ${response.status} - ${response.statusText}`);
+            }
+
+            // Success - parse and return
+            if (response.ok) {
+                return await parseResponse(response);
+            }
+
+            throw new NetworkError(`Unexpected status: ${response.status}`);
+
+        } catch (error) {
+            lastError = error as Error;
+
+            // Don't retry on validation errors or non-network errors
+            if (error instanceof ValidationError ||
+                error instanceof RateLimitError ||
+                (error instanceof Error && error.name !== 'NetworkError' && error.message !== 'Request timeout')) {
+                throw error;
+            }
+
+            // Retry on network errors
+            if (attempt < maxRetries) {
+                const delay = getRetryDelay(attempt);
+                console.warn(`Network error on attempt ${attempt + 1}/${maxRetries + 1}: ${error}. Retrying after ${delay}ms...`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    throw lastError || new NetworkError('Max retries exceeded');
+}
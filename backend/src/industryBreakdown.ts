@@ -0,0 +1,55 @@
+import type { SnapshotEntry } from './snapshotJob';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Industry for stocks the provider gave none for. Providers store it in
+// StockData.industry; the fallbacks here cover entries cached without one.
+export const UNCLASSIFIED_INDUSTRY = 'Unknown';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface IndustrySummary {
+    industry: string;
+    count: number;
+    averageYield: number;
+    medianYield: number;
+    minYield: number;
+    maxYield: number;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function median(sorted: number[]): number {
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// ─── Breakdown ────────────────────────────────────────────────────────────────
+
+/**
+ * Group one sector bucket's stocks by industry, largest industry first
+ */
+export function summarizeIndustries(snapshot: SnapshotEntry[], sector: string): IndustrySummary[] {
+    const yields = new Map<string, number[]>();
+
+    for (const entry of snapshot) {
+        if (entry.sector !== sector) continue;
+
+        const industry = entry.industry || UNCLASSIFIED_INDUSTRY;
+        yields.set(industry, [...(yields.get(industry) ?? []), entry.yield]);
+    }
+
+    return [...yields.entries()]
+        .map(([industry, values]) => {
+            const sorted = [...values].sort((a, b) => a - b);
+            return {
+                industry,
+                count: sorted.length,
+                averageYield: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+                medianYield: median(sorted),
+                minYield: sorted[0],
+                maxYield: sorted[sorted.length - 1],
+            };
+        })
+        .sort((a, b) => b.count - a.count || a.industry.localeCompare(b.industry));
+}
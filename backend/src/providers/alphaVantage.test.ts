@@ -0,0 +1,77 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOverview } from './alphaVantage';
+import { errorCodeOf } from '../dataFetcher';
+import { fetchWithRetry } from '../http';
+import { NetworkError, RateLimitError, ValidationError } from '../types';
+
+describe('parseOverview error mapping', () => {
+    it('treats a Note reply as a rate limit', () => {
+        assert.throws(() => parseOverview({ Note: 'Thank you for using Alpha Vantage!' }, 'KO'), RateLimitError);
+    });
+
+    it('treats an Information reply as a rate limit, not a bad ticker', () => {
+        assert.throws(
+            () => parseOverview({ Information: 'Our standard API rate limit is 25 requests per day.' }, 'KO'),
+            RateLimitError
+        );
+    });
+
+    it('treats an Error Message reply as an invalid ticker', () => {
+        assert.throws(() => parseOverview({ 'Error Message': 'Invalid API call.' }, 'NOPE'), ValidationError);
+    });
+
+    it('treats an empty reply as no data', () => {
+        assert.throws(() => parseOverview({}, 'NOPE'), ValidationError);
+    });
+
+    it('converts ratios to percentages and drops unknown values', () => {
+        const stock = parseOverview({
+            Symbol: 'KO',
+            Name: 'Coca-Cola',
+            Industry: 'None',
+            DividendYield: '0.031',
+            PayoutRatio: 'None',
+            MarketCapitalization: '-',
+        }, 'KO');
+
+        assert.equal(stock.yield, 3.1);
+        assert.equal(stock.payoutRatio, null);
+        assert.equal(stock.marketCap, null);
+        assert.equal(stock.industry, 'Unknown');
+    });
+});
+
+describe('fetchWithRetry network errors', () => {
+    const realFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('reports a failed connection as a network error, keeping the cause', async () => {
+        const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+        globalThis.fetch = async () => { throw new TypeError('fetch failed', { cause: refused }); };
+
+        const error = await fetchWithRetry('https://example.test', {}, async res => res.json(), 0)
+            .then(() => assert.fail('expected a rejection'), err => err as Error);
+
+        assert.ok(error instanceof NetworkError);
+        assert.equal(error.cause, refused);
+        assert.equal(errorCodeOf(error), 'NETWORK_ERROR');
+    });
+
+    it('retries a failed connection before giving up', async () => {
+        let attempts = 0;
+        globalThis.fetch = async () => {
+            attempts++;
+            if (attempts === 1) throw new TypeError('fetch failed');
+            return new Response(JSON.stringify({ ok: true }));
+        };
+
+        const body = await fetchWithRetry('https://example.test', {}, async res => res.json(), 1);
+
+        assert.deepEqual(body, { ok: true });
+        assert.equal(attempts, 2);
+    });
+});
@@ -0,0 +1,177 @@
+import { fetchWithRetry } from '../http';
+import { UNCLASSIFIED_INDUSTRY } from '../industryBreakdown';
+import { classifySector } from '../sectors';
+import { getUpstreamQuota } from '../upstreamQuota';
+import {
+    RateLimitError,
+    ValidationError,
+    type AlphaVantageDividendRecord,
+    type AlphaVantageDividendsResponse,
+    type AlphaVantageResponse,
+    type DividendHistory,
+    type DividendPayment,
+    type MarketDataProvider,
+    type RequestPriority,
+    type StockData,
+} from '../types';
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+/**
+ * Alpha Vantage uses "None" or "-" for numbers it doesn't know
+ */
+function parseNumber(value: string | undefined): number | null {
+    if (!value || value === 'None' || value === '-') return null;
+
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Alpha Vantage uses "None" for dates it doesn't know
+ */
+function parseDate(value: string | undefined): string | null {
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+/**
+ * Normalise an OVERVIEW-shaped record into StockData.
+ * Shared by every provider that stores data in Alpha Vantage's format.
+ */
+export function parseOverview(response: AlphaVantageResponse, ticker: string): StockData {
+    // Handle Alpha Vantage specific errors
+    if (response['Error Message']) {
+        throw new ValidationError(`Invalid ticker symbol: ${ticker}`);
+    }
+
+    if (response.Note || response.Information) {
+        // API rate limit or quota message; neither carries any data
+        throw new RateLimitError('Alpha Vantage API rate limit reached');
+    }
+
+    // Validate required fields
+    if (!response.Symbol) {
+        throw new ValidationError(`No data found for ticker: ${ticker}`);
+    }
+
+    // Alpha Vantage returns ratios as decimals (0.05 for 5%), convert to percentages
+    const dividendYield = parseNumber(response.DividendYield);
+    const payoutRatio = parseNumber(response.PayoutRatio);
+
+    // Negative values here are data errors, not real figures. Zero is a real
+    // "no dividend" for DPS and payout ratio; a zero market cap is not.
+    const dividendPerShare = parseNumber(response.DividendPerShare);
+    const marketCap = parseNumber(response.MarketCapitalization);
+
+    return {
+        ticker: response.Symbol,
+        name: response.Name || response.Symbol,
+        sector: classifySector(response.Sector),
+        rawSector: response.Sector && response.Sector !== 'None' ? response.Sector : null,
+        industry: response.Industry && response.Industry !== 'None' ? response.Industry : UNCLASSIFIED_INDUSTRY,
+        yield: dividendYield !== null ? dividendYield * 100 : 0,
+        dividendPerShare: dividendPerShare !== null && dividendPerShare >= 0 ? dividendPerShare : null,
+        payoutRatio: payoutRatio !== null && payoutRatio >= 0 ? payoutRatio * 100 : null,
+        exDividendDate: parseDate(response.ExDividendDate),
+        dividendDate: parseDate(response.DividendDate),
+        marketCap: marketCap !== null && marketCap > 0 ? marketCap : null,
+        eps: parseNumber(response.EPS),
+        growth: null, // Needs the payment history, filled in by the data layer
+    };
+}
+
+/**
+ * Normalise DIVIDENDS-shaped records into a payment series, oldest first.
+ * Rows without an ex-date or a positive amount are dropped.
+ */
+export function parseDividendRecords(records: AlphaVantageDividendRecord[], ticker: string): DividendHistory {
+    const payments: DividendPayment[] = [];
+
+    for (const record of records) {
+        const exDate = parseDate(record.ex_dividend_date);
+        const amount = parseFloat(record.amount ?? '');
+
+        if (!exDate || isNaN(amount) || amount <= 0) continue;
+
+        payments.push({
+            exDate,
+            payDate: parseDate(record.payment_date),
+            recordDate: parseDate(record.record_date),
+            declarationDate: parseDate(record.declaration_date),
+            amount,
+        });
+    }
+
+    payments.sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+    return { ticker: ticker.toUpperCase(), payments };
+}
+
+/**
+ * Alpha Vantage OVERVIEW and DIVIDENDS endpoints.
+ * Every call waits for the shared upstream quota at this provider's priority.
+ */
+export class AlphaVantageProvider implements MarketDataProvider {
+    readonly name = 'alphavantage' as const;
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly priority: RequestPriority = 'interactive'
+    ) { }
+
+    private readonly acquireQuota = async (): Promise<void> => {
+        await getUpstreamQuota()?.acquire(this.priority);
+    };
+
+    async fetchFundamentals(ticker: string): Promise<StockData> {
+        if (!this.apiKey) {
+            throw new Error('ALPHA_VANTAGE_API_KEY environment variable not set');
+        }
+
+        const url = `${BASE_URL}?function=OVERVIEW&symbol=${encodeURIComponent(ticker)}&apikey=${this.apiKey}`;
+
+        const response = await fetchWithRetry<AlphaVantageResponse>(
+            url,
+            {
+                headers: {
+                    'Accept': 'application/json',
+                },
+            },
+            async (res) => res.json() as Promise<AlphaVantageResponse>,
+            undefined,
+            this.acquireQuota
+        );
+
+        return parseOverview(response, ticker);
+    }
+
+    async fetchDividendHistory(ticker: string): Promise<DividendHistory> {
+        if (!this.apiKey) {
+            throw new Error('ALPHA_VANTAGE_API_KEY environment variable not set');
+        }
+
+        const url = `${BASE_URL}?function=DIVIDENDS&symbol=${encodeURIComponent(ticker)}&apikey=${this.apiKey}`;
+
+        const response = await fetchWithRetry<AlphaVantageDividendsResponse>(
+            url,
+            {
+                headers: {
+                    'Accept': 'application/json',
+                },
+            },
+            async (res) => res.json() as Promise<AlphaVantageDividendsResponse>,
+            undefined,
+            this.acquireQuota
+        );
+
+        if (response['Error Message']) {
+            throw new ValidationError(`Invalid ticker symbol: ${ticker}`);
+        }
+
+        if (response.Note || response.Information) {
+            throw new RateLimitError('Alpha Vantage API rate limit reached');
+        }
+
+        return parseDividendRecords(response.data ?? [], ticker);
+    }
+}
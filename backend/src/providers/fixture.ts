@@ -0,0 +1,212 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseDividendRecords, parseOverview } from './alphaVantage';
+import { parseSecExchangeFeed, parseSecTickerFeed } from '../sec';
+import {
+    ValidationError,
+    type AlphaVantageDividendRecord,
+    type AlphaVantageResponse,
+    type DividendHistory,
+    type MarketDataProvider,
+    type SECTickerExchangeResponse,
+    type SECTickerResponse,
+    type StockData,
+    type TickerRecord,
+} from '../types';
+
+// Files looked up inside the fixture directory
+const FUNDAMENTALS_JSON = 'fundamentals.json'; // AlphaVantageResponse[]
+const FUNDAMENTALS_CSV  = 'fundamentals.csv';  // Header row uses OVERVIEW field names
+const TICKERS_JSON      = 'company_tickers.json'; // Either SEC feed shape
+const DIVIDENDS_JSON    = 'dividends.json'; // { [ticker]: AlphaVantageDividendRecord[] }
+const DIVIDENDS_CSV     = 'dividends.csv';  // symbol column + DIVIDENDS field names
+
+/**
+ * Read a file, returning null when it does not exist
+ */
+async function readOptional(filePath: string): Promise<string | null> {
+    try {
+        return await readFile(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF line endings
+ */
+function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(r => r.some(value => value.trim() !== ''));
+    if (!header) return [];
+
+    return body.map(values =>
+        Object.fromEntries(header.map((key, i) => [key.trim(), (values[i] ?? '').trim()]))
+    );
+}
+
+/**
+ * Serves OVERVIEW-shaped records from disk so the app can run offline
+ * (local development, demos, CI).
+ */
+export class FixtureProvider implements MarketDataProvider {
+    readonly name = 'fixture' as const;
+
+    private records: Promise<Map<string, AlphaVantageResponse>> | null = null;
+    private dividends: Promise<Map<string, AlphaVantageDividendRecord[]>> | null = null;
+
+    constructor(private readonly dataDir: string) { }
+
+    private loadRecords(): Promise<Map<string, AlphaVantageResponse>> {
+        if (!this.records) {
+            this.records = (async () => {
+                const [json, csv] = await Promise.all([
+                    readOptional(path.join(this.dataDir, FUNDAMENTALS_JSON)),
+                    readOptional(path.join(this.dataDir, FUNDAMENTALS_CSV)),
+                ]);
+
+                if (json === null && csv === null) {
+                    throw new Error(
+                        `No fixture data found in ${this.dataDir} ` +
+                        `(expected ${FUNDAMENTALS_JSON} or ${FUNDAMENTALS_CSV})`
+                    );
+                }
+
+                const entries: AlphaVantageResponse[] = [
+                    ...(json ? JSON.parse(json) as AlphaVantageResponse[] : []),
+                    ...(csv ? parseCsv(csv) as AlphaVantageResponse[] : []),
+                ];
+
+                const records = new Map<string, AlphaVantageResponse>();
+                for (const entry of entries) {
+                    if (entry.Symbol) records.set(entry.Symbol.toUpperCase(), entry);
+                }
+
+                console.log(`[fixture] Loaded ${records.size} records from ${this.dataDir}`);
+                return records;
+            })();
+
+            // Allow a retry after fixing the files on disk
+            this.records.catch(() => { this.records = null; });
+        }
+
+        return this.records;
+    }
+
+    private loadDividends(): Promise<Map<string, AlphaVantageDividendRecord[]>> {
+        if (!this.dividends) {
+            this.dividends = (async () => {
+                const [json, csv] = await Promise.all([
+                    readOptional(path.join(this.dataDir, DIVIDENDS_JSON)),
+                    readOptional(path.join(this.dataDir, DIVIDENDS_CSV)),
+                ]);
+
+                const dividends = new Map<string, AlphaVantageDividendRecord[]>();
+                const add = (ticker: string, rows: AlphaVantageDividendRecord[]) => {
+                    const key = ticker.toUpperCase();
+                    dividends.set(key, [...(dividends.get(key) ?? []), ...rows]);
+                };
+
+                if (json) {
+                    const byTicker = JSON.parse(json) as Record<string, AlphaVantageDividendRecord[]>;
+                    Object.entries(byTicker).forEach(([ticker, rows]) => add(ticker, rows));
+                }
+
+                if (csv) {
+                    parseCsv(csv).forEach(({ symbol, ...row }) => {
+                        if (symbol) add(symbol, [row]);
+                    });
+                }
+
+                return dividends;
+            })();
+
+            this.dividends.catch(() => { this.dividends = null; });
+        }
+
+        return this.dividends;
+    }
+
+    async fetchFundamentals(ticker: string): Promise<StockData> {
+        const records = await this.loadRecords();
+        const record = records.get(ticker.toUpperCase());
+
+        if (!record) {
+            throw new ValidationError(`No data found for ticker: ${ticker}`);
+        }
+
+        return parseOverview(record, ticker);
+    }
+
+    async fetchDividendHistory(ticker: string): Promise<DividendHistory> {
+        const [records, dividends] = await Promise.all([this.loadRecords(), this.loadDividends()]);
+        const rows = dividends.get(ticker.toUpperCase());
+
+        // Known company without rows on disk is simply a non-payer
+        if (!rows && !records.has(ticker.toUpperCase())) {
+            throw new ValidationError(`No data found for ticker: ${ticker}`);
+        }
+
+        return parseDividendRecords(rows ?? [], ticker);
+    }
+
+    async fetchTickerRecords(): Promise<TickerRecord[]> {
+        const raw = await readOptional(path.join(this.dataDir, TICKERS_JSON));
+        if (raw) {
+            const feed = JSON.parse(raw) as SECTickerExchangeResponse | SECTickerResponse;
+            return Array.isArray(feed.fields)
+                ? parseSecExchangeFeed(feed as SECTickerExchangeResponse)
+                : parseSecTickerFeed(feed as SECTickerResponse);
+        }
+
+        // No ticker file: the universe is whatever has fundamentals on disk
+        const records = await this.loadRecords();
+        return [...records.entries()].map(([ticker, record]) => ({
+            ticker,
+            cik: 0,
+            name: record.Name || ticker,
+            exchange: record.Exchange || null,
+        }));
+    }
+}
@@ -0,0 +1,38 @@
+import config from '../config/config';
+import type { MarketDataProvider, MarketDataProviderName, RequestPriority } from '../types';
+import { AlphaVantageProvider } from './alphaVantage';
+import { FixtureProvider } from './fixture';
+
+export { AlphaVantageProvider } from './alphaVantage';
+export { FixtureProvider } from './fixture';
+
+const defaultProviders = new Map<RequestPriority, MarketDataProvider>();
+
+/**
+ * Build a provider by name. The priority decides its place in the
+ * upstream quota queue (see upstreamQuota.ts).
+ */
+export function createMarketDataProvider(
+    name: MarketDataProviderName,
+    priority: RequestPriority = 'interactive'
+): MarketDataProvider {
+    switch (name) {
+        case 'alphavantage':
+            return new AlphaVantageProvider(config.alphaVantageAPIKey, priority);
+        case 'fixture':
+            return new FixtureProvider(config.fixtureDataDir);
+    }
+}
+
+/**
+ * The provider selected through MARKET_DATA_PROVIDER (created once per priority)
+ */
+export function getMarketDataProvider(priority: RequestPriority = 'interactive'): MarketDataProvider {
+    let provider = defaultProviders.get(priority);
+    if (!provider) {
+        provider = createMarketDataProvider(config.marketDataProvider, priority);
+        defaultProviders.set(priority, provider);
+        console.log(`Using market data provider: ${provider.name} (${priority})`);
+    }
+    return provider;
+}
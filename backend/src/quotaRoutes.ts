@@ -0,0 +1,21 @@
+import express, { Request, Response, Router } from 'express';
+import type { UpstreamQuota } from './upstreamQuota';
+
+export function createQuotaRoutes(quota: UpstreamQuota): Router {
+    const router = express.Router();
+
+    /**
+     * GET /api/quota
+     * Upstream vendor budget: calls used and remaining this minute and
+     * today (null without a daily cap), and how many calls are queued
+     * at each priority in this process.
+     */
+    router.get('/', async (req: Request, res: Response) => {
+        res.json({
+            success: true,
+            data: await quota.getStatus(),
+        });
+    });
+
+    return router;
+}
@@ -1,7 +1,10 @@
 import express, { type Request, type Response, type NextFunction, Router } from 'express';
 import { type RedisClientType } from 'redis';
 import rateLimit from 'express-rate-limit';
-import { fetcher, fetchBatch } from './dataFetcher';
+import { dividendFetcher, fetcher, fetchBatch } from './dataFetcher';
+import { getMarketDataProvider } from './providers';
+import { ensureTickerRegistry } from './tickerRegistry';
+import { searchTickers } from './tickerSearch';
 
 interface TickerParams {
     ticker: string;
@@ -91,15 +94,10 @@ export function createStockRoutes(redisClient: RedisClientType): Router {
                 });
             }
 
-            const tickersJSON = await fetcher('tickers', redisClient);
-            const allTickers = JSON.parse(tickersJSON);
-
-            const searchQuery = q.toUpperCase().trim();
-            const maxResults = Math.min(parseInt(limit as string, 10), 100);
+            await ensureTickerRegistry(redisClient, getMarketDataProvider());
 
-            const matchingTickers = allTickers
-                .filter((ticker: string) => ticker.startsWith(searchQuery))
-                .slice(0, maxResults);
+            const maxResults = Math.min(parseInt(limit as string, 10) || 50, 100);
+            const matchingTickers = await searchTickers(redisClient, q, maxResults);
 
             return res.json({
                 success: true,
@@ -164,6 +162,48 @@ export function createStockRoutes(redisClient: RedisClientType): Router {
         }
     );
 
+    /**
+     * GET /api/stocks/:ticker/dividends
+     * Full dividend payment history for a specific stock, oldest first
+     */
+    router.get(
+        '/:ticker/dividends',
+        stockLimiter,
+        async (req: Request, res: Response) => {
+            try {
+                const { ticker } = req.params;
+
+                const dataJSON = await dividendFetcher(<string>ticker, redisClient);
+                const data = JSON.parse(dataJSON);
+
+                // Handle errors from fetcher
+                if (data.error) {
+                    const statusCode =
+                        data.error === 'RATE_LIMIT' ? 429 :
+                            data.error === 'VALIDATION_ERROR' ? 404 :
+                                data.error === 'NETWORK_ERROR' ? 503 :
+                                    500;
+
+                    return res.status(statusCode).json(data);
+                }
+
+                res.json({
+                    success: true,
+                    data,
+                    count: data.payments.length,
+                });
+                return
+            } catch (error) {
+                console.error('Error fetching dividend history:', error);
+                res.status(500).json({
+                    error: 'INTERNAL_ERROR',
+                    message: 'Failed to fetch dividend history',
+                });
+                return
+            }
+        }
+    );
+
     /**
      * POST /api/stocks/batch
      * Fetch multiple stocks at once
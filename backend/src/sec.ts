@@ -0,0 +1,53 @@
+import { fetchWithRetry } from './http';
+import type { SECTickerExchangeResponse, SECTickerResponse, TickerRecord } from './types';
+
+const SEC_TICKERS_EXCHANGE_URL = 'https://www.sec.gov/files/company_tickers_exchange.json';
+
+/**
+ * Normalise the columnar company_tickers_exchange.json feed
+ */
+export function parseSecExchangeFeed(response: SECTickerExchangeResponse): TickerRecord[] {
+    const cikIndex      = response.fields.indexOf('cik');
+    const nameIndex     = response.fields.indexOf('name');
+    const tickerIndex   = response.fields.indexOf('ticker');
+    const exchangeIndex = response.fields.indexOf('exchange');
+
+    return response.data
+        .filter(row => typeof row[tickerIndex] === 'string' && row[tickerIndex] !== '')
+        .map(row => ({
+            ticker: String(row[tickerIndex]).toUpperCase(),
+            cik: Number(row[cikIndex]) || 0,
+            name: row[nameIndex] ? String(row[nameIndex]) : String(row[tickerIndex]),
+            exchange: exchangeIndex >= 0 && row[exchangeIndex] ? String(row[exchangeIndex]) : null,
+        }));
+}
+
+/**
+ * Normalise the keyed company_tickers.json feed (no exchange data)
+ */
+export function parseSecTickerFeed(response: SECTickerResponse): TickerRecord[] {
+    return Object.values(response).map(item => ({
+        ticker: item.ticker.toUpperCase(),
+        cik: item.cik_str,
+        name: item.title || item.ticker,
+        exchange: null,
+    }));
+}
+
+/**
+ * Fetch every listed company from the SEC, including its exchange
+ */
+export async function fetchSecTickerRecords(): Promise<TickerRecord[]> {
+    const response = await fetchWithRetry<SECTickerExchangeResponse>(
+        SEC_TICKERS_EXCHANGE_URL,
+        {
+            headers: {
+                'User-Agent': 'Sample Company Name AdminContact@gmail.com',
+                'Accept': 'application/json',
+            },
+        },
+        async (res) => res.json() as Promise<SECTickerExchangeResponse>
+    );
+
+    return parseSecExchangeFeed(response);
+}
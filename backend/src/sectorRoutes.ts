@@ -0,0 +1,23 @@
+import express, { Request, Response, Router } from 'express';
+import { getSectorBuckets } from './sectors';
+
+export function createSectorRoutes(): Router {
+    const router = express.Router();
+
+    /**
+     * GET /api/sectors
+     * The sector taxonomy: bucket name, colour, display order and the raw
+     * vendor sectors that map to it. The fallback bucket comes last.
+     */
+    router.get('/', (req: Request, res: Response) => {
+        const buckets = getSectorBuckets();
+
+        res.json({
+            success: true,
+            data: buckets,
+            count: buckets.length,
+        });
+    });
+
+    return router;
+}
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import config from './config/config';
+import defaultTaxonomy from './config/sectors.json';
+import type { SectorBucket, SectorTaxonomy } from './types';
+
+let taxonomy: SectorTaxonomy | null = null;
+let lookup: Map<string, SectorBucket> | null = null;
+
+/**
+ * Check the file's shape and that every raw sector maps to one bucket only
+ */
+function validateTaxonomy(value: SectorTaxonomy, source: string): SectorTaxonomy {
+    const buckets = [...(value.buckets ?? []), value.fallback];
+    const seen = new Map<string, string>();
+
+    for (const bucket of buckets) {
+        if (!bucket || typeof bucket.name !== 'string' || typeof bucket.color !== 'string' ||
+            typeof bucket.order !== 'number' || !Array.isArray(bucket.rawSectors)) {
+            throw new Error(`Invalid sector taxonomy in ${source}: every bucket needs name, color, order and rawSectors`);
+        }
+
+        for (const raw of bucket.rawSectors) {
+            const key = raw.toLowerCase();
+            const owner = seen.get(key);
+            if (owner) {
+                throw new Error(`Invalid sector taxonomy in ${source}: "${raw}" is mapped to both ${owner} and ${bucket.name}`);
+            }
+            seen.set(key, bucket.name);
+        }
+    }
+
+    return {
+        buckets: [...value.buckets].sort((a, b) => a.order - b.order),
+        fallback: value.fallback,
+    };
+}
+
+/**
+ * The taxonomy from SECTOR_TAXONOMY_FILE, or the bundled config/sectors.json
+ */
+export function getSectorTaxonomy(): SectorTaxonomy {
+    if (!taxonomy) {
+        const source = config.sectorTaxonomyFile || 'config/sectors.json';
+        const raw = config.sectorTaxonomyFile
+            ? JSON.parse(readFileSync(config.sectorTaxonomyFile, 'utf8')) as SectorTaxonomy
+            : defaultTaxonomy as SectorTaxonomy;
+
+        taxonomy = validateTaxonomy(raw, source);
+    }
+    return taxonomy;
+}
+
+/**
+ * Every bucket in display order, fallback last
+ */
+export function getSectorBuckets(): SectorBucket[] {
+    const { buckets, fallback } = getSectorTaxonomy();
+    return [...buckets, fallback];
+}
+
+/**
+ * Map a vendor sector (any case) to its bucket name
+ */
+export function classifySector(rawSector: string | null | undefined): string {
+    if (!lookup) {
+        lookup = new Map();
+        for (const bucket of getSectorTaxonomy().buckets) {
+            for (const raw of bucket.rawSectors) lookup.set(raw.toLowerCase(), bucket);
+        }
+    }
+
+    const bucket = rawSector ? lookup.get(rawSector.trim().toLowerCase()) : undefined;
+    return (bucket ?? getSectorTaxonomy().fallback).name;
+}
@@ -0,0 +1,123 @@
+import { RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
+import type { SnapshotEntry } from './snapshotJob';
+import type { SnapshotMode } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const CHECKPOINT_KEY = 'snapshot:job:checkpoint';  // RunCheckpoint JSON
+const RUN_TICKERS_KEY = 'snapshot:job:tickers';    // Ticker list frozen at run start
+const PARTIAL_KEY    = 'snapshot:job:partial';     // Hash: ticker → SnapshotEntry JSON
+const DEFERRED_KEY   = 'snapshot:job:deferred';    // Set: tickers waiting for the retry pass
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface RunCheckpoint {
+    runId: string;
+    mode: SnapshotMode;
+    universe: string;    // Universe id the ticker list was resolved from
+    startedAt: string;   // ISO timestamp
+    nextIndex: number;   // Position in the frozen ticker list to resume from
+    completed: number;   // Fetched fine, paying or not
+    paying: number;
+    failed: number;
+    retryPass: number;   // Retry passes finished after the main pass (0 = none yet)
+}
+
+export interface TickerResult {
+    ticker: string;
+    entry: SnapshotEntry | null;   // Null if it pays no dividend or the fetch failed
+    deferred: boolean;             // Failed and waits for a retry pass
+}
+
+// ─── Checkpoint ───────────────────────────────────────────────────────────────
+
+/**
+ * Start a fresh run: freeze the ticker list and drop any earlier partial results
+ */
+export async function startCheckpoint(
+    redisClient: RedisClientType,
+    tickers: string[],
+    mode: SnapshotMode,
+    universe: string
+): Promise<RunCheckpoint> {
+    const checkpoint: RunCheckpoint = {
+        runId: randomUUID(),
+        mode,
+        universe,
+        startedAt: new Date().toISOString(),
+        nextIndex: 0,
+        completed: 0,
+        paying: 0,
+        failed: 0,
+        retryPass: 0,
+    };
+
+    await redisClient.multi()
+        .del([PARTIAL_KEY, DEFERRED_KEY])
+        .set(RUN_TICKERS_KEY, JSON.stringify(tickers))
+        .set(CHECKPOINT_KEY, JSON.stringify(checkpoint))
+        .exec();
+
+    return checkpoint;
+}
+
+/**
+ * The interrupted run's checkpoint and ticker list, if there is one to resume
+ */
+export async function loadCheckpoint(
+    redisClient: RedisClientType
+): Promise<{ checkpoint: RunCheckpoint; tickers: string[] } | null> {
+    const [checkpoint, tickers] = await Promise.all([
+        redisClient.get(CHECKPOINT_KEY),
+        redisClient.get(RUN_TICKERS_KEY),
+    ]);
+    if (!checkpoint || !tickers) return null;
+
+    return {
+        checkpoint: JSON.parse(checkpoint) as RunCheckpoint,
+        tickers: JSON.parse(tickers) as string[],
+    };
+}
+
+/**
+ * Record one processed ticker: its entry when it's a dividend payer, and
+ * whether it waits for a retry pass. All go in one transaction so a crash
+ * can't count a ticker without its result or drop it from the retries.
+ */
+export async function saveCheckpoint(
+    redisClient: RedisClientType,
+    checkpoint: RunCheckpoint,
+    result?: TickerResult
+): Promise<void> {
+    const multi = redisClient.multi();
+    if (result?.entry) multi.hSet(PARTIAL_KEY, result.ticker, JSON.stringify(result.entry));
+    if (result?.deferred) multi.sAdd(DEFERRED_KEY, result.ticker);
+    if (result && !result.deferred) multi.sRem(DEFERRED_KEY, result.ticker);
+    multi.set(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+    await multi.exec();
+}
+
+/**
+ * Partial results collected so far, in ticker-list order
+ */
+export async function getPartialResults(
+    redisClient: RedisClientType,
+    tickers: string[]
+): Promise<SnapshotEntry[]> {
+    const entries = await redisClient.hGetAll(PARTIAL_KEY);
+    return tickers
+        .filter(ticker => entries[ticker])
+        .map(ticker => JSON.parse(entries[ticker]) as SnapshotEntry);
+}
+
+export async function clearCheckpoint(redisClient: RedisClientType): Promise<void> {
+    await redisClient.del([CHECKPOINT_KEY, RUN_TICKERS_KEY, PARTIAL_KEY, DEFERRED_KEY]);
+}
+
+// ─── Deferred tickers ─────────────────────────────────────────────────────────
+
+export async function getDeferredTickers(redisClient: RedisClientType): Promise<string[]> {
+    return (await redisClient.sMembers(DEFERRED_KEY)).sort();
+}
@@ -0,0 +1,88 @@
+import type { SnapshotEntry } from './snapshotJob';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface YieldMove {
+    ticker: string;
+    name: string;
+    sector: string;
+    fromYield: number;
+    toYield: number;
+    change: number;     // Percentage points, toYield - fromYield
+}
+
+export interface SectorChange {
+    ticker: string;
+    name: string;
+    fromSector: string;
+    toSector: string;
+}
+
+export interface SnapshotDiff {
+    threshold: number;
+    yieldMovers: YieldMove[];           // Largest absolute move first
+    newPayers: SnapshotEntry[];         // In `to` only
+    droppedPayers: SnapshotEntry[];     // In `from` only: cut, suspended, or failed to fetch
+    sectorChanges: SectorChange[];
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two snapshot versions. Snapshots only hold dividend payers, so
+ * membership changes are read as starting or stopping payments.
+ */
+export function diffSnapshots(
+    from: SnapshotEntry[],
+    to: SnapshotEntry[],
+    threshold: number
+): SnapshotDiff {
+    const before = new Map(from.map(entry => [entry.ticker, entry]));
+    const after = new Map(to.map(entry => [entry.ticker, entry]));
+
+    const yieldMovers: YieldMove[] = [];
+    const sectorChanges: SectorChange[] = [];
+    const newPayers: SnapshotEntry[] = [];
+
+    after.forEach((current, ticker) => {
+        const previous = before.get(ticker);
+
+        if (!previous) {
+            newPayers.push(current);
+            return;
+        }
+
+        const change = current.yield - previous.yield;
+        if (Math.abs(change) > threshold) {
+            yieldMovers.push({
+                ticker,
+                name: current.name,
+                sector: current.sector,
+                fromYield: previous.yield,
+                toYield: current.yield,
+                change,
+            });
+        }
+
+        if (current.sector !== previous.sector) {
+            sectorChanges.push({
+                ticker,
+                name: current.name,
+                fromSector: previous.sector,
+                toSector: current.sector,
+            });
+        }
+    });
+
+    const droppedPayers = from.filter(entry => !after.has(entry.ticker));
+
+    const byTicker = (a: { ticker: string }, b: { ticker: string }) => a.ticker.localeCompare(b.ticker);
+
+    return {
+        threshold,
+        yieldMovers: yieldMovers.sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || byTicker(a, b)),
+        newPayers: newPayers.sort(byTicker),
+        droppedPayers: droppedPayers.sort(byTicker),
+        sectorChanges: sectorChanges.sort(byTicker),
+    };
+}
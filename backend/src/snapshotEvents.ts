@@ -0,0 +1,132 @@
+import { RedisClientType } from 'redis';
+import type { JobProgress, JobStatus } from './snapshotJob';
+import type { RunStatus } from './snapshotRuns';
+import type { FetchErrorCode } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const EVENTS_CHANNEL = 'snapshot:events';       // Pub/sub: SnapshotEvent JSON as it happens
+const EVENTS_STREAM  = 'snapshot:events:log';   // Stream of the same events; entry ids are the SSE event ids
+
+// Roughly how many events are kept for Last-Event-ID replay
+const EVENTS_RETAINED = 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SnapshotPhase = 'starting' | 'resuming' | 'retry' | 'persisting' | 'paused';
+
+export type SnapshotEventDetail =
+    | { type: 'ticker'; ticker: string; paying: boolean }
+    | { type: 'ticker-failed'; ticker: string; error: FetchErrorCode; message: string; retrying: boolean }
+    | { type: 'phase'; phase: SnapshotPhase; retryPass?: number }
+    | { type: 'finished'; outcome: Exclude<RunStatus, 'running' | 'paused'> };
+
+interface SnapshotEventContext {
+    runId: string;
+    at: string;                  // ISO timestamp
+    status: JobStatus;           // Job status once this event has happened
+    progress: JobProgress;
+}
+
+export type UnpublishedSnapshotEvent = SnapshotEventDetail & SnapshotEventContext;
+
+export type SnapshotEvent = UnpublishedSnapshotEvent & {
+    id: string;                  // Stream entry id, increasing
+};
+
+type Listener = (event: SnapshotEvent) => void;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether stream id `a` ("<ms>-<seq>") comes after `b`
+ */
+export function isEventAfter(a: string, b: string): boolean {
+    const [aMs, aSeq] = a.split('-').map(Number);
+    const [bMs, bSeq] = b.split('-').map(Number);
+    return aMs !== bMs ? aMs > bMs : aSeq > bSeq;
+}
+
+export function isEventId(value: string): boolean {
+    return /^\d+-\d+$/.test(value);
+}
+
+// ─── Publishing ───────────────────────────────────────────────────────────────
+
+/**
+ * Log the event to the stream (for replay), then broadcast it
+ */
+export async function publishSnapshotEvent(
+    redisClient: RedisClientType,
+    event: UnpublishedSnapshotEvent
+): Promise<SnapshotEvent> {
+    const id = await redisClient.xAdd(EVENTS_STREAM, '*', { event: JSON.stringify(event) }, {
+        TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: EVENTS_RETAINED },
+    });
+
+    const published: SnapshotEvent = { ...event, id };
+    await redisClient.publish(EVENTS_CHANNEL, JSON.stringify(published));
+    return published;
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Retained events after `lastEventId`, oldest first
+ */
+export async function readSnapshotEventsSince(
+    redisClient: RedisClientType,
+    lastEventId: string
+): Promise<SnapshotEvent[]> {
+    const entries = await redisClient.xRange(EVENTS_STREAM, `(${lastEventId}`, '+');
+
+    return entries.map(entry => ({
+        ...(JSON.parse(entry.message.event) as UnpublishedSnapshotEvent),
+        id: entry.id,
+    }));
+}
+
+// ─── Subscribing ──────────────────────────────────────────────────────────────
+
+// One subscriber connection per process, fanned out to every listener
+let subscriber: Promise<RedisClientType> | null = null;
+const listeners = new Set<Listener>();
+
+async function connectSubscriber(redisClient: RedisClientType): Promise<RedisClientType> {
+    const client = redisClient.duplicate();
+    client.on('error', err => console.error('[events] Subscriber error:', err));
+
+    await client.connect();
+    await client.subscribe(EVENTS_CHANNEL, message => {
+        const event = JSON.parse(message) as SnapshotEvent;
+        listeners.forEach(listener => listener(event));
+    });
+
+    return client;
+}
+
+/**
+ * Call `listener` for every event published from now on, by any
+ * instance. Resolves once subscribed, to an unsubscribe function.
+ */
+export async function subscribeSnapshotEvents(
+    redisClient: RedisClientType,
+    listener: Listener
+): Promise<() => void> {
+    subscriber ??= connectSubscriber(redisClient).catch(err => {
+        subscriber = null;
+        throw err;
+    });
+    await subscriber;
+
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export async function closeSnapshotEvents(): Promise<void> {
+    const client = await subscriber?.catch(() => null);
+    subscriber = null;
+    listeners.clear();
+    await client?.quit();
+}
@@ -0,0 +1,96 @@
+import { RedisClientType } from 'redis';
+import config from './config/config';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const REFRESHED_KEY = 'snapshot:refreshed';   // Hash: ticker → TickerFreshness JSON, for config.snapshotUniverse
+                                              // + ':' + universe id → the same for any other universe
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TickerFreshness {
+    refreshedAt: string;   // ISO timestamp of the last successful fetch
+    payer: boolean;        // Whether it paid a dividend at that fetch
+}
+
+export interface MaxAges {
+    payerHours: number;
+    nonPayerHours: number;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Freshness is tracked per universe: a ticker refreshed by one universe's
+ * run is still stale for every other universe's snapshot
+ */
+function refreshedKey(universe: string): string {
+    return universe === config.snapshotUniverse ? REFRESHED_KEY : `${REFRESHED_KEY}:${universe}`;
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+export async function getFreshness(
+    redisClient: RedisClientType,
+    universe: string,
+    tickers: string[]
+): Promise<Map<string, TickerFreshness>> {
+    const freshness = new Map<string, TickerFreshness>();
+    if (tickers.length === 0) return freshness;
+
+    const values = await redisClient.hmGet(refreshedKey(universe), tickers);
+    values.forEach((raw, i) => {
+        if (raw) freshness.set(tickers[i], JSON.parse(raw) as TickerFreshness);
+    });
+    return freshness;
+}
+
+/**
+ * Tickers older than their max age (or never fetched). Known payers come
+ * first, then the longest-unrefreshed, so a run cut short by quota still
+ * updates what matters most.
+ */
+export async function selectStaleTickers(
+    redisClient: RedisClientType,
+    universe: string,
+    tickers: string[],
+    maxAges: MaxAges = { payerHours: config.payerMaxAgeHours, nonPayerHours: config.nonPayerMaxAgeHours },
+    now: Date = new Date()
+): Promise<string[]> {
+    const freshness = await getFreshness(redisClient, universe, tickers);
+
+    const stale = tickers
+        .map(ticker => ({ ticker, record: freshness.get(ticker) }))
+        .filter(({ record }) => {
+            if (!record) return true;
+            const maxAge = (record.payer ? maxAges.payerHours : maxAges.nonPayerHours) * HOUR_MS;
+            return now.getTime() - Date.parse(record.refreshedAt) >= maxAge;
+        });
+
+    const lastRefreshed = (record?: TickerFreshness) => record ? Date.parse(record.refreshedAt) : 0;
+
+    return stale
+        .sort((a, b) =>
+            Number(b.record?.payer ?? false) - Number(a.record?.payer ?? false) ||
+            lastRefreshed(a.record) - lastRefreshed(b.record)
+        )
+        .map(({ ticker }) => ticker);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export async function markRefreshed(
+    redisClient: RedisClientType,
+    universe: string,
+    ticker: string,
+    payer: boolean,
+    refreshedAt: Date = new Date()
+): Promise<void> {
+    await redisClient.hSet(refreshedKey(universe), ticker, JSON.stringify({
+        refreshedAt: refreshedAt.toISOString(),
+        payer,
+    } satisfies TickerFreshness));
+}
@@ -0,0 +1,114 @@
+import { RedisClientType } from 'redis';
+import config from './config/config';
+import type { SnapshotEntry } from './snapshotJob';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const HISTORY_INDEX_KEY = 'snapshot:history';        // Sorted set: date, scored by its timestamp
+const HISTORY_META_KEY  = 'snapshot:history:meta';   // Hash: date → SnapshotVersion JSON
+const VERSION_KEY_PREFIX = 'snapshot:version:';      // + YYYY-MM-DD → SnapshotEntry[] JSON
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SnapshotVersion {
+    date: string;       // YYYY-MM-DD (UTC) the run finished
+    savedAt: string;    // ISO timestamp
+    count: number;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const versionKey = (date: string) => `${VERSION_KEY_PREFIX}${date}`;
+
+export function isSnapshotDate(value: string): boolean {
+    return DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Stores a finished snapshot under its date, without expiry. A second run on
+ * the same day replaces that day's version.
+ */
+export async function saveSnapshotVersion(
+    redisClient: RedisClientType,
+    snapshot: SnapshotEntry[],
+    savedAt: Date = new Date()
+): Promise<SnapshotVersion> {
+    const date = savedAt.toISOString().slice(0, 10);
+    const version: SnapshotVersion = {
+        date,
+        savedAt: savedAt.toISOString(),
+        count: snapshot.length,
+    };
+
+    await redisClient.multi()
+        .set(versionKey(date), JSON.stringify(snapshot))
+        .zAdd(HISTORY_INDEX_KEY, { score: Date.parse(date), value: date })
+        .hSet(HISTORY_META_KEY, date, JSON.stringify(version))
+        .exec();
+
+    return version;
+}
+
+/**
+ * Drops versions older than the retention window. Returns the removed dates.
+ */
+export async function pruneSnapshotHistory(
+    redisClient: RedisClientType,
+    retentionDays: number = config.snapshotRetentionDays,
+    now: Date = new Date()
+): Promise<string[]> {
+    const cutoff = Date.parse(now.toISOString().slice(0, 10)) - retentionDays * 86_400_000;
+    const expired = await redisClient.zRangeByScore(HISTORY_INDEX_KEY, '-inf', `(${cutoff}`);
+
+    if (expired.length === 0) return [];
+
+    await redisClient.multi()
+        .del(expired.map(versionKey))
+        .zRem(HISTORY_INDEX_KEY, expired)
+        .hDel(HISTORY_META_KEY, expired)
+        .exec();
+
+    console.log(`[snapshot] Pruned ${expired.length} versions older than ${retentionDays} days`);
+    return expired;
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * All retained versions, newest first
+ */
+export async function listSnapshotVersions(
+    redisClient: RedisClientType
+): Promise<SnapshotVersion[]> {
+    const dates = await redisClient.zRange(HISTORY_INDEX_KEY, 0, -1, { REV: true });
+    if (dates.length === 0) return [];
+
+    const meta = await redisClient.hmGet(HISTORY_META_KEY, dates);
+    return dates.map((date, i) =>
+        meta[i] ? (JSON.parse(meta[i]!) as SnapshotVersion) : { date, savedAt: date, count: 0 }
+    );
+}
+
+/**
+ * When a version was saved; null for one saved before versions had metadata
+ */
+export async function getSnapshotVersionInfo(
+    redisClient: RedisClientType,
+    date: string
+): Promise<SnapshotVersion | null> {
+    const raw = await redisClient.hGet(HISTORY_META_KEY, date);
+    return raw ? (JSON.parse(raw) as SnapshotVersion) : null;
+}
+
+export async function getSnapshotVersion(
+    redisClient: RedisClientType,
+    date: string
+): Promise<SnapshotEntry[] | null> {
+    const raw = await redisClient.get(versionKey(date));
+    return raw ? (JSON.parse(raw) as SnapshotEntry[]) : null;
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeRunResults } from './snapshotJob';
+import type { RunCheckpoint } from './snapshotCheckpoint';
+import { fakeRedis, snapshotEntry as entry } from './testing/fixtures';
+
+const RUN_STARTED = '2026-10-19T02:00:00.000Z';
+
+function freshness(refreshedAt: string, payer: boolean): string {
+    return JSON.stringify({ refreshedAt, payer });
+}
+
+const checkpoint: RunCheckpoint = {
+    runId: 'run-1',
+    mode: 'incremental',
+    universe: 'all',
+    startedAt: RUN_STARTED,
+    nextIndex: 3,
+    completed: 3,
+    paying: 2,
+    failed: 0,
+    retryPass: 0,
+};
+
+describe('mergeRunResults', () => {
+    it('replaces refreshed tickers, drops new non-payers and keeps the rest', async () => {
+        const redis = fakeRedis({
+            strings: {
+                tickers: JSON.stringify(['AAA', 'BBB', 'CCC', 'DDD']),
+                'snapshot:all': JSON.stringify([
+                    entry('AAA', { yield: 1 }),
+                    entry('BBB', { yield: 2 }),
+                    entry('DDD', { yield: 4 }),
+                ]),
+            },
+            hashes: {
+                'snapshot:job:partial': {
+                    AAA: JSON.stringify(entry('AAA', { yield: 10 })),
+                    CCC: JSON.stringify(entry('CCC', { yield: 30 })),
+                },
+                'snapshot:refreshed': {
+                    AAA: freshness('2026-10-19T02:05:00.000Z', true),
+                    BBB: freshness('2026-10-19T02:06:00.000Z', false),   // Stopped paying this run
+                    CCC: freshness('2026-10-19T02:07:00.000Z', true),
+                    DDD: freshness('2026-10-12T02:00:00.000Z', true),    // Not reached this run
+                },
+            },
+        });
+
+        const merged = await mergeRunResults(redis, checkpoint, ['AAA', 'BBB', 'CCC'], 'all');
+        const yields = Object.fromEntries(merged.map(e => [e.ticker, e.yield]));
+
+        assert.deepEqual(yields, { AAA: 10, CCC: 30, DDD: 4 });
+    });
+
+    it('keeps the old entry for a ticker that failed this run', async () => {
+        const redis = fakeRedis({
+            strings: {
+                tickers: JSON.stringify(['AAA']),
+                'snapshot:all': JSON.stringify([entry('AAA', { yield: 1 })]),
+            },
+            hashes: {
+                'snapshot:refreshed': { AAA: freshness('2026-10-18T02:00:00.000Z', true) },
+            },
+        });
+
+        const merged = await mergeRunResults(redis, checkpoint, ['AAA'], 'all');
+
+        assert.deepEqual(merged.map(e => [e.ticker, e.yield]), [['AAA', 1]]);
+    });
+
+    it('drops base entries for tickers no longer in the universe', async () => {
+        const redis = fakeRedis({
+            strings: {
+                tickers: JSON.stringify(['AAA']),
+                'snapshot:all': JSON.stringify([entry('AAA', { yield: 1 }), entry('ZZZ', { yield: 9 })]),
+            },
+        });
+
+        const merged = await mergeRunResults(redis, checkpoint, [], 'all');
+
+        assert.deepEqual(merged.map(e => e.ticker), ['AAA']);
+    });
+});
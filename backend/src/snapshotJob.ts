@@ -1,25 +1,81 @@
 import { RedisClientType } from 'redis';
-import { fetchStockFundamentals } from './dataFetcher';
-import type { StockData } from './types';
+import { errorCodeOf, fetchDividendGrowth, fetchStockFundamentals } from './dataFetcher';
+import { getMarketDataProvider } from './providers';
+import { getTickerRecords } from './tickerRegistry';
+import { getUniverse, resolveUniverse } from './universes';
+import config from './config/config';
+import {
+    getSnapshotVersion,
+    listSnapshotVersions,
+    pruneSnapshotHistory,
+    saveSnapshotVersion,
+} from './snapshotHistory';
+import { getFreshness, markRefreshed, selectStaleTickers } from './snapshotFreshness';
+import { clearValidationFailures, recordValidationFailure, withoutSkipped } from './snapshotSkipList';
+import { sleep } from './http';
+import {
+    clearFailure,
+    finishRun,
+    getRun,
+    recordFailure,
+    startRun,
+    updateRun,
+    type RunCounts,
+    type RunTrigger,
+} from './snapshotRuns';
+import {
+    clearCheckpoint,
+    getDeferredTickers,
+    getPartialResults,
+    loadCheckpoint,
+    saveCheckpoint,
+    startCheckpoint,
+    type RunCheckpoint,
+} from './snapshotCheckpoint';
+import {
+    LEASE_RENEW_INTERVAL_MS,
+    LEASE_TTL,
+    acquireLease,
+    getLease,
+    releaseLease,
+    renewLease,
+    type JobLease,
+} from './snapshotLease';
+import { publishSnapshotEvent, type SnapshotEventDetail } from './snapshotEvents';
+import { computeSnapshotStats, type SnapshotStats } from './snapshotStats';
+import type { FetchErrorCode, MarketDataProvider, SnapshotMode, StockData } from './types';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-// Alpha Vantage free tier: 25/day. Premium tiers go up to 75/min.
-// Set conservatively so the job never trips the rate limiter.
-const REQUESTS_PER_MINUTE = parseInt(process.env.AV_REQUESTS_PER_MINUTE ?? '60', 10);
-const MS_PER_REQUEST = Math.ceil((60 / REQUESTS_PER_MINUTE) * 1000); // e.g. 800ms at 75/min
+// Pacing is left to the shared upstream quota (upstreamQuota.ts);
+// this is only used for time estimates
+const REQUESTS_PER_MINUTE = config.upstreamRequestsPerMinute;
 
 // Redis keys
-const SNAPSHOT_KEY     = 'snapshot:all';           // The finished dataset
-const JOB_STATUS_KEY   = 'snapshot:job:status';    // 'idle' | 'running' | 'failed'
+const SNAPSHOT_KEY     = 'snapshot:all';           // The finished dataset for config.snapshotUniverse
+const UNIVERSE_SNAPSHOT_PREFIX = 'snapshot:universe:';  // + id → finished dataset for any other universe
+                                                        // Either + ':meta' → SnapshotMeta JSON
+                                                        //        + ':stats' → SnapshotStats JSON
+const JOB_STATUS_KEY   = 'snapshot:job:status';    // 'idle' | 'running' | 'paused' | 'failed'
 const JOB_PROGRESS_KEY = 'snapshot:job:progress';  // { completed, total, startedAt }
+// Checkpoint keys live in snapshotCheckpoint.ts, the job lease in snapshotLease.ts,
+// progress events in snapshotEvents.ts
+
+// Failures worth another try at the end of the run, and how: up to
+// RETRY_PASSES passes over them, waiting 1, 2, 4… × RETRY_BACKOFF_MS first
+const RETRYABLE_ERRORS = new Set<FetchErrorCode>(['RATE_LIMIT', 'NETWORK_ERROR']);
+const RETRY_PASSES = 3;
+const RETRY_BACKOFF_MS = 60 * 1000;
 
 // Cache the finished snapshot for 24 hours; job runs once a day via cron
 const SNAPSHOT_EXPIRY = 24 * 60 * 60;             // 24 hours in seconds
 
+// Bump when SnapshotEntry or SnapshotMeta change shape
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-export type JobStatus = 'idle' | 'running' | 'failed';
+export type JobStatus = 'idle' | 'running' | 'paused' | 'failed';
 
 export interface JobProgress {
     completed: number;
@@ -32,14 +88,217 @@ export interface SnapshotEntry extends StockData {
     ticker: string;
 }
 
+export interface SnapshotCoverage extends RunCounts {
+    total: number;            // Tickers the run set out to fetch (only stale ones when incremental)
+    universeSize: number;     // Tickers in the universe when the snapshot was saved
+}
+
+export interface SnapshotMeta {
+    schemaVersion: number;
+    complete: boolean;        // False when saved from a cancelled or failed run
+    runId: string;
+    universe: string;
+    mode: SnapshotMode;
+    provider: string;         // Market data provider the run fetched from
+    startedAt: string;        // ISO timestamp: run start
+    generatedAt: string;      // ISO timestamp: when this snapshot was saved
+    coverage: SnapshotCoverage;
+}
+
+export interface SnapshotJobOptions {
+    mode?: SnapshotMode;      // Defaults to config.snapshotMode
+    universe?: string;        // Universe id; defaults to config.snapshotUniverse
+    trigger?: RunTrigger;     // Recorded in the run history; defaults to 'manual'
+    resume?: boolean;         // Continue a paused run; otherwise a paused run blocks new ones
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+function progressOf(checkpoint: RunCheckpoint, total: number): JobProgress {
+    return {
+        completed: checkpoint.completed,
+        total,
+        startedAt: checkpoint.startedAt,
+        estimatedMinutes: Math.ceil((total - checkpoint.nextIndex) / REQUESTS_PER_MINUTE),
+    };
+}
+
+async function writeProgress(
+    redisClient: RedisClientType,
+    checkpoint: RunCheckpoint,
+    total: number
+): Promise<void> {
+    await redisClient.set(JOB_PROGRESS_KEY, JSON.stringify(progressOf(checkpoint, total)));
+}
+
+function runCounts(checkpoint: RunCheckpoint): RunCounts {
+    return {
+        processed: checkpoint.completed + checkpoint.failed,
+        paying: checkpoint.paying ?? 0,
+        skipped: checkpoint.completed - (checkpoint.paying ?? 0),
+        failed: checkpoint.failed,
+    };
+}
+
+function snapshotKey(universe: string): string {
+    return universe === config.snapshotUniverse ? SNAPSHOT_KEY : `${UNIVERSE_SNAPSHOT_PREFIX}${universe}`;
+}
+
+async function getUniverseTickers(redisClient: RedisClientType, universe: string): Promise<string[]> {
+    const definition = getUniverse(universe);
+    if (!definition) throw new Error(`Unknown snapshot universe "${universe}"`);
+    return resolveUniverse(redisClient, definition);
+}
+
+/**
+ * Tickers for a new run. Those on the skip list (repeated validation
+ * failures) are left out; incremental runs only take stale ones, plus
+ * fresh payers the base snapshot lacks (e.g. it expired and the base fell
+ * back to another universe's), which would otherwise drop out.
+ */
+async function selectRunTickers(
+    redisClient: RedisClientType,
+    universe: string,
+    mode: SnapshotMode
+): Promise<string[]> {
+    const candidates = await withoutSkipped(redisClient, await getUniverseTickers(redisClient, universe));
+    if (mode !== 'incremental') return candidates;
+
+    const stale = await selectStaleTickers(redisClient, universe, candidates);
+    const staleSet = new Set(stale);
+
+    const inBase = new Set((await getBaseSnapshot(redisClient, universe)).map(entry => entry.ticker));
+    const fresh = candidates.filter(ticker => !staleSet.has(ticker));
+    const freshness = await getFreshness(redisClient, universe, fresh);
+    const missing = fresh.filter(ticker => freshness.get(ticker)?.payer && !inBase.has(ticker));
+
+    return [...missing, ...stale];
+}
+
+function snapshotMetaKey(universe: string): string {
+    return `${snapshotKey(universe)}:meta`;
+}
+
+function snapshotStatsKey(universe: string): string {
+    return `${snapshotKey(universe)}:stats`;
+}
+
+/**
+ * The universe's current snapshot. Failing that, the default universe's
+ * (current or latest saved version), which covers most universes' tickers.
+ */
+async function getBaseSnapshot(redisClient: RedisClientType, universe: string): Promise<SnapshotEntry[]> {
+    const current = await getSnapshot(redisClient, universe);
+    if (current) return current;
+
+    if (universe !== config.snapshotUniverse) return getBaseSnapshot(redisClient, config.snapshotUniverse);
+
+    const [latest] = await listSnapshotVersions(redisClient);
+    return latest ? (await getSnapshotVersion(redisClient, latest.date)) ?? [] : [];
+}
+
+/**
+ * Apply an incremental run to the previous snapshot: refreshed tickers are
+ * replaced (or dropped if they no longer pay), everything else is kept.
+ */
+function mergeSnapshot(
+    base: SnapshotEntry[],
+    refreshed: Set<string>,
+    entries: SnapshotEntry[]
+): SnapshotEntry[] {
+    const merged = new Map(base.map(entry => [entry.ticker, entry]));
+    refreshed.forEach(ticker => merged.delete(ticker));
+    entries.forEach(entry => merged.set(entry.ticker, entry));
+    return [...merged.values()];
+}
+
+/**
+ * The run's results so far merged over the previous snapshot. Tickers the
+ * run hasn't refreshed (not reached yet, or failed) keep their old entry.
+ */
+export async function mergeRunResults(
+    redisClient: RedisClientType,
+    checkpoint: RunCheckpoint,
+    tickers: string[],
+    universe: string
+): Promise<SnapshotEntry[]> {
+    const results = await getPartialResults(redisClient, tickers);
+
+    const freshness = await getFreshness(redisClient, universe, tickers);
+    const refreshed = new Set(tickers.filter(ticker =>
+        (freshness.get(ticker)?.refreshedAt ?? '') >= checkpoint.startedAt
+    ));
+
+    // Drop entries for tickers that have since left the universe
+    const members = new Set(await getUniverseTickers(redisClient, universe));
+    const base = (await getBaseSnapshot(redisClient, universe)).filter(entry => members.has(entry.ticker));
+
+    return mergeSnapshot(base, refreshed, results);
+}
+
+/**
+ * Save a run's snapshot with its metadata and sector stats
+ */
+async function storeSnapshot(
+    redisClient: RedisClientType,
+    snapshot: SnapshotEntry[],
+    run: { checkpoint: RunCheckpoint; total: number; universe: string; provider: string; complete: boolean }
+): Promise<SnapshotMeta> {
+    const { checkpoint, universe } = run;
+
+    const meta: SnapshotMeta = {
+        schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+        complete: run.complete,
+        runId: checkpoint.runId,
+        universe,
+        mode: checkpoint.mode,
+        provider: run.provider,
+        startedAt: checkpoint.startedAt,
+        generatedAt: new Date().toISOString(),
+        coverage: {
+            ...runCounts(checkpoint),
+            total: run.total,
+            universeSize: (await getUniverseTickers(redisClient, universe)).length,
+        },
+    };
 
-async function getAllTickers(redisClient: RedisClientType): Promise<string[]> {
-    const raw = await redisClient.get('tickers');
-    if (!raw) throw new Error('Tickers not in cache. Run fetcher("tickers", ...) first.');
-    return JSON.parse(raw) as string[];
+    const stats = computeSnapshotStats(snapshot, { universe, generatedAt: meta.generatedAt });
+
+    await redisClient.multi()
+        .set(snapshotKey(meta.universe), JSON.stringify(snapshot), { EX: SNAPSHOT_EXPIRY })
+        .set(snapshotMetaKey(meta.universe), JSON.stringify(meta), { EX: SNAPSHOT_EXPIRY })
+        .set(snapshotStatsKey(meta.universe), JSON.stringify(stats), { EX: SNAPSHOT_EXPIRY })
+        .exec();
+
+    return meta;
+}
+
+/**
+ * Publish what a cancelled or failed run fetched, marked incomplete,
+ * instead of throwing it away. Kept out of the snapshot history.
+ */
+async function savePartialSnapshot(
+    redisClient: RedisClientType,
+    checkpoint: RunCheckpoint,
+    tickers: string[],
+    universe: string,
+    provider: string
+): Promise<void> {
+    if (checkpoint.completed === 0) return;
+
+    const snapshot = await mergeRunResults(redisClient, checkpoint, tickers, universe);
+    const { coverage } = await storeSnapshot(redisClient, snapshot, {
+        checkpoint,
+        total: tickers.length,
+        universe,
+        provider,
+        complete: false,
+    });
+
+    console.log(
+        `[snapshot] Saved partial snapshot — ${snapshot.length} paying-dividend stocks ` +
+        `(${coverage.processed}/${coverage.total} tickers processed).`
+    );
 }
 
 // ─── Job ──────────────────────────────────────────────────────────────────────
@@ -48,92 +307,365 @@ async function getAllTickers(redisClient: RedisClientType): Promise<string[]> {
  * Builds a full snapshot of dividend data for every cached ticker.
  *
  * Designed to run as a background job (cron or worker thread) — NOT in a
- * request handler. Progress is written to Redis so the API can stream it
- * to the client via SSE (see routes).
+ * request handler. Each ticker and phase change is published as an event
+ * (snapshotEvents.ts) that the API streams to clients via SSE; a coarser
+ * progress summary is kept in Redis for /status.
+ *
+ * Only the worker holding the job lease runs it, so replicas whose crons
+ * all fire at once don't duplicate work. Each processed ticker is
+ * checkpointed to Redis, so a run whose worker died (lease not renewed
+ * for LEASE_TTL) is resumed where it stopped instead of starting over.
+ *
+ * The run covers one universe (see universes.ts). Only the default
+ * universe's snapshot is served at snapshot:all and kept in history.
+ *
+ * In incremental mode only tickers past their max age are refetched and
+ * the results are merged into the previous snapshot.
+ *
+ * Tickers that fail with a rate-limit or network error get up to
+ * RETRY_PASSES more tries, with backoff, once the main pass is done.
+ * If the run is cancelled or fails, what it fetched so far is still
+ * published, marked `complete: false`.
+ *
+ * A paused run keeps its checkpoint and is only continued by a call
+ * with `resume: true`.
  */
-export async function runSnapshotJob(redisClient: RedisClientType): Promise<void> {
-    // ── Guard: don't run two jobs simultaneously ──────────────────────────────
+export async function runSnapshotJob(
+    redisClient: RedisClientType,
+    options: SnapshotJobOptions = {},
+    provider: MarketDataProvider = getMarketDataProvider('background')
+): Promise<void> {
+    // ── Guard: exactly one worker owns the job at a time ──────────────────────
+    const lease = await acquireLease(redisClient);
+    if (!lease) {
+        const owner = await getLease(redisClient);
+        console.log(`[snapshot] Job already running on ${owner?.workerId ?? 'another worker'} — skipping duplicate trigger.`);
+        return;
+    }
+
+    try {
+        await runWithLease(redisClient, lease, options, provider);
+    } finally {
+        await releaseLease(redisClient);
+    }
+}
+
+async function runWithLease(
+    redisClient: RedisClientType,
+    lease: JobLease,
+    options: SnapshotJobOptions,
+    provider: MarketDataProvider
+): Promise<void> {
+    // ── Resume a dead worker's or paused run, or start a new one ──────────────
+    // We hold the lease, so a run still marked 'running' has lost its worker
     const currentStatus = await redisClient.get(JOB_STATUS_KEY);
-    if (currentStatus === 'running') {
-        console.log('[snapshot] Job already running — skipping duplicate trigger.');
+
+    if (currentStatus === 'paused' && !options.resume) {
+        console.log('[snapshot] A run is paused — resume or cancel it first. Skipping trigger.');
         return;
     }
 
-    const tickers = await getAllTickers(redisClient);
-    const total    = tickers.length;
-    let   completed = 0;
-    let   failed    = 0;
+    const resuming = currentStatus === 'running' || currentStatus === 'paused';
+    const saved = resuming ? await loadCheckpoint(redisClient) : null;
+
+    const mode     = saved?.checkpoint.mode ?? options.mode ?? config.snapshotMode;
+    const universe = saved?.checkpoint.universe ?? options.universe ?? config.snapshotUniverse;
+
+    const tickers = saved?.tickers ?? await selectRunTickers(redisClient, universe, mode);
 
-    // Accumulate results here; write to Redis in one shot at the end
-    const snapshot: SnapshotEntry[] = [];
+    const checkpoint = saved?.checkpoint ?? await startCheckpoint(redisClient, tickers, mode, universe);
+    const registry   = await getTickerRecords(redisClient, tickers);
+    const total      = tickers.length;
+
+    // A resumed run keeps its original history record
+    if (saved) {
+        await updateRun(redisClient, checkpoint.runId, { status: 'running' });
+    } else {
+        await startRun(redisClient, {
+            id: checkpoint.runId,
+            trigger: options.trigger ?? 'manual',
+            mode,
+            universe,
+            provider: provider.name,
+            total,
+            startedAt: checkpoint.startedAt,
+        });
+    }
 
     await redisClient.set(JOB_STATUS_KEY, 'running' satisfies JobStatus);
-    await redisClient.set(JOB_PROGRESS_KEY, JSON.stringify({
-        completed: 0,
-        total,
-        startedAt: new Date().toISOString(),
-        estimatedMinutes: Math.ceil(total / REQUESTS_PER_MINUTE),
-    } satisfies JobProgress));
+    await writeProgress(redisClient, checkpoint, total);
 
-    console.log(
-        `[snapshot] Starting — ${total} tickers @ ${REQUESTS_PER_MINUTE} req/min ` +
-        `(~${Math.ceil(total / REQUESTS_PER_MINUTE)} min)`
-    );
+    if (saved) {
+        console.log(
+            `[snapshot] ${currentStatus === 'paused' ? 'Resuming paused' : 'Taking over stale'} run ` +
+            `${checkpoint.runId} at ${checkpoint.nextIndex}/${total} ` +
+            `(~${Math.ceil((total - checkpoint.nextIndex) / REQUESTS_PER_MINUTE)} min left)`
+        );
+    } else {
+        console.log(
+            `[snapshot] Starting ${mode} run of ${universe} — ${total} tickers via ${provider.name} @ ${REQUESTS_PER_MINUTE} req/min ` +
+            `(~${Math.ceil(total / REQUESTS_PER_MINUTE)} min)`
+        );
+    }
+
+    // Renew the lease on a timer so it survives a single slow, retrying fetch
+    lease.runId = checkpoint.runId;
+    let leaseLost = !(await renewLease(redisClient, lease));
+
+    const leaseTimer = setInterval(() => {
+        renewLease(redisClient, lease)
+            .then(renewed => { leaseLost ||= !renewed; })
+            .catch(err => console.warn('[snapshot] Lease renewal failed:', (err as Error).message));
+    }, LEASE_RENEW_INTERVAL_MS);
+
+    /**
+     * Publish a progress event. Best effort: a lost event never stops the run.
+     */
+    const emit = async (detail: SnapshotEventDetail, status: JobStatus = 'running'): Promise<void> => {
+        try {
+            await publishSnapshotEvent(redisClient, {
+                ...detail,
+                runId: checkpoint.runId,
+                at: new Date().toISOString(),
+                status,
+                progress: progressOf(checkpoint, total),
+            });
+        } catch (err) {
+            console.warn('[snapshot] Failed to publish progress event:', (err as Error).message);
+        }
+    };
+
+    await emit({ type: 'phase', phase: saved ? 'resuming' : 'starting' });
 
-    for (const ticker of tickers) {
-        // ── Check for cancellation signal each iteration ───────────────────
+    /**
+     * Checked before each ticker: paused, cancelled, or taken over by
+     * another worker
+     */
+    const shouldStop = async (): Promise<boolean> => {
         const status = await redisClient.get(JOB_STATUS_KEY);
+        if (status === 'paused') {
+            // Keep the checkpoint so resume picks up from here
+            console.log(`[snapshot] Paused at ${checkpoint.nextIndex}/${total}.`);
+            await writeProgress(redisClient, checkpoint, total);
+            await updateRun(redisClient, checkpoint.runId, { ...runCounts(checkpoint), status: 'paused' });
+            await emit({ type: 'phase', phase: 'paused' }, 'paused');
+            return true;
+        }
+
         if (status !== 'running') {
             console.log('[snapshot] Cancelled externally.');
-            return;
+            await savePartialSnapshot(redisClient, checkpoint, tickers, universe, provider.name);
+            await finishRun(redisClient, checkpoint.runId, 'cancelled', runCounts(checkpoint));
+            await clearCheckpoint(redisClient);
+            await emit({ type: 'finished', outcome: 'cancelled' }, 'idle');
+            return true;
         }
 
-        try {
-            // Individual stock results may already be cached by the regular
-            // fetcher — fetchStockFundamentals checks its own cache.
-            const data = await fetchStockFundamentals(ticker);
+        if (leaseLost) {
+            console.log('[snapshot] Lost the job lease to another worker — stopping.');
+            return true;
+        }
+
+        return false;
+    };
+
+    /**
+     * Snapshot entry for a ticker, or null if it pays no dividend
+     */
+    const fetchEntry = async (ticker: string): Promise<SnapshotEntry | null> => {
+        // Individual stock results may already be cached by the regular
+        // fetcher — fetchStockFundamentals checks its own cache.
+        const data = await fetchStockFundamentals(ticker, provider);
+
+        let entry: SnapshotEntry | null = null;
+
+        // Only include stocks that actually pay a dividend
+        if (data.yield > 0) {
+            const growth = await fetchDividendGrowth(data, redisClient, provider);
+            entry = { ...data, name: registry.get(ticker)?.name ?? data.name, growth };
+        }
+
+        await markRefreshed(redisClient, universe, ticker, entry !== null);
+        await clearValidationFailures(redisClient, ticker);
+        return entry;
+    };
+
+    /**
+     * Record why a ticker failed and route it by error class: rate-limit and
+     * network errors wait for a retry pass, repeated validation errors end
+     * up on the skip list for later runs. `pass` is 0 for the main pass,
+     * then the retry pass number. Returns whether the ticker is deferred;
+     * the caller saves that with the checkpoint.
+     */
+    const handleFailure = async (ticker: string, err: unknown, pass: number): Promise<boolean> => {
+        const error = errorCodeOf(err);
+        const message = (err as Error).message;
+        const attempts = pass + 1;
+
+        // Non-fatal: log and move on so one bad ticker doesn't abort the run
+        console.warn(`[snapshot] Failed to fetch ${ticker} (${error}, attempt ${attempts}):`, message);
 
-            // Only include stocks that actually pay a dividend
-            if (data.yield > 0) {
-                snapshot.push({ ...data });
+        await recordFailure(redisClient, checkpoint.runId, {
+            ticker,
+            error,
+            message,
+            attempts,
+            at: new Date().toISOString(),
+        });
+
+        const retrying = RETRYABLE_ERRORS.has(error) && pass < RETRY_PASSES;
+        await emit({ type: 'ticker-failed', ticker, error, message, retrying });
+
+        if (RETRYABLE_ERRORS.has(error)) return true;
+
+        if (error === 'VALIDATION_ERROR' && await recordValidationFailure(redisClient, ticker, checkpoint.runId, message)) {
+            console.warn(`[snapshot] ${ticker} keeps failing validation — skipping it in later runs.`);
+        }
+        return false;
+    };
+
+    try {
+        // ── Main pass ──────────────────────────────────────────────────────
+        while (checkpoint.nextIndex < total) {
+            const ticker = tickers[checkpoint.nextIndex];
+
+            if (await shouldStop()) return;
+
+            let entry: SnapshotEntry | null = null;
+            let deferred = false;
+
+            try {
+                entry = await fetchEntry(ticker);
+                checkpoint.completed++;
+                if (entry) checkpoint.paying++;
+                await emit({ type: 'ticker', ticker, paying: entry !== null });
+            } catch (err) {
+                checkpoint.failed++;
+                deferred = await handleFailure(ticker, err, 0);
             }
 
-            completed++;
-        } catch (err) {
-            // Non-fatal: log and move on so one bad ticker doesn't abort the run
-            console.warn(`[snapshot] Failed to fetch ${ticker}:`, (err as Error).message);
-            failed++;
+            checkpoint.nextIndex++;
+            await saveCheckpoint(redisClient, checkpoint, { ticker, entry, deferred });
+
+            // Update progress counter in Redis (cheap write every N tickers)
+            if (checkpoint.nextIndex % 50 === 0 || checkpoint.nextIndex === total) {
+                await writeProgress(redisClient, checkpoint, total);
+                await updateRun(redisClient, checkpoint.runId, runCounts(checkpoint));
+            }
+        }
+
+        // ── Retry passes for rate-limit and network failures ───────────────
+        while (checkpoint.retryPass < RETRY_PASSES) {
+            const deferred = await getDeferredTickers(redisClient);
+            if (deferred.length === 0) break;
+
+            const pass = checkpoint.retryPass + 1;
+            const delay = RETRY_BACKOFF_MS * Math.pow(2, pass - 1);
+
+            console.log(
+                `[snapshot] Retry pass ${pass}/${RETRY_PASSES} for ${deferred.length} tickers in ${delay / 1000}s`
+            );
+            await emit({ type: 'phase', phase: 'retry', retryPass: pass });
+            await sleep(delay);
+
+            for (const ticker of deferred) {
+                if (await shouldStop()) return;
+
+                let entry: SnapshotEntry | null = null;
+                let deferred = false;
+
+                try {
+                    entry = await fetchEntry(ticker);
+                    checkpoint.failed--;
+                    checkpoint.completed++;
+                    if (entry) checkpoint.paying++;
+
+                    // Safe before the checkpoint: until that's saved the
+                    // ticker stays deferred and is retried on resume
+                    await clearFailure(redisClient, checkpoint.runId, ticker);
+                    await emit({ type: 'ticker', ticker, paying: entry !== null });
+                } catch (err) {
+                    deferred = await handleFailure(ticker, err, pass);
+                }
+
+                await saveCheckpoint(redisClient, checkpoint, { ticker, entry, deferred });
+            }
+
+            checkpoint.retryPass = pass;
+            await saveCheckpoint(redisClient, checkpoint);
+            await writeProgress(redisClient, checkpoint, total);
+            await updateRun(redisClient, checkpoint.runId, runCounts(checkpoint));
         }
 
-        // Update progress counter in Redis (cheap write every N tickers)
-        if (completed % 50 === 0 || completed === total) {
-            const remaining  = total - completed - failed;
-            const estimatedMinutes = Math.ceil(remaining / REQUESTS_PER_MINUTE);
-
-            await redisClient.set(JOB_PROGRESS_KEY, JSON.stringify({
-                completed,
-                total,
-                startedAt: (JSON.parse(
-                    (await redisClient.get(JOB_PROGRESS_KEY)) ?? '{}'
-                ) as JobProgress).startedAt,
-                estimatedMinutes,
-            } satisfies JobProgress));
+        // ── Persist finished snapshot ──────────────────────────────────────
+        await emit({ type: 'phase', phase: 'persisting' });
+
+        // Incremental: tickers that failed this run keep their previous entry
+        const snapshot = mode === 'incremental'
+            ? await mergeRunResults(redisClient, checkpoint, tickers, universe)
+            : await getPartialResults(redisClient, tickers);
+
+        await storeSnapshot(redisClient, snapshot, {
+            checkpoint,
+            total,
+            universe,
+            provider: provider.name,
+            complete: true,
+        });
+
+        // Keep a dated copy that outlives SNAPSHOT_EXPIRY; history and
+        // diffs track the default universe only
+        if (universe === config.snapshotUniverse) {
+            await saveSnapshotVersion(redisClient, snapshot);
+            await pruneSnapshotHistory(redisClient);
         }
 
-        // ── Rate-limit throttle ────────────────────────────────────────────
-        await sleep(MS_PER_REQUEST);
+        await finishRun(redisClient, checkpoint.runId, 'completed', runCounts(checkpoint));
+        await clearCheckpoint(redisClient);
+        await redisClient.set(JOB_STATUS_KEY, 'idle' satisfies JobStatus);
+        await emit({ type: 'finished', outcome: 'completed' }, 'idle');
+
+        console.log(
+            `[snapshot] Done — ${snapshot.length} paying-dividend stocks stored ` +
+            `(${checkpoint.completed} refreshed), ${checkpoint.failed} tickers failed.`
+        );
+    } catch (err) {
+        await savePartialSnapshot(redisClient, checkpoint, tickers, universe, provider.name).catch(saveErr =>
+            console.warn('[snapshot] Could not save partial snapshot:', (saveErr as Error).message)
+        );
+        await finishRun(redisClient, checkpoint.runId, 'failed', runCounts(checkpoint), (err as Error).message);
+
+        // What it fetched is saved above; nothing left to resume. A worker
+        // that took over the lease owns the status and checkpoint now.
+        if (!leaseLost) {
+            await redisClient.set(JOB_STATUS_KEY, 'failed' satisfies JobStatus);
+            await clearCheckpoint(redisClient);
+        }
+        await emit({ type: 'finished', outcome: 'failed' }, 'failed');
+        throw err;
+    } finally {
+        clearInterval(leaseTimer);
     }
+}
 
-    // ── Persist finished snapshot ──────────────────────────────────────────
-    await redisClient.set(SNAPSHOT_KEY, JSON.stringify(snapshot), {
-        EX: SNAPSHOT_EXPIRY,
-    });
-    await redisClient.set(JOB_STATUS_KEY, 'idle' satisfies JobStatus);
+/**
+ * Called at startup: picks up a run left 'running' by a worker that has
+ * since died. If its lease hasn't expired yet (e.g. a quick restart),
+ * checks again once it would have.
+ */
+export async function resumeStaleSnapshotJob(redisClient: RedisClientType): Promise<void> {
+    if ((await redisClient.get(JOB_STATUS_KEY)) !== 'running') return;
 
-    console.log(
-        `[snapshot] Done — ${snapshot.length} paying-dividend stocks stored, ` +
-        `${failed} tickers skipped.`
-    );
+    if (await getLease(redisClient)) {
+        setTimeout(() => {
+            resumeStaleSnapshotJob(redisClient).catch(err =>
+                console.error('[snapshot] Resume check failed:', err)
+            );
+        }, LEASE_TTL * 1000);
+        return;
+    }
+
+    await runSnapshotJob(redisClient);
 }
 
 // ─── Public helpers for routes ────────────────────────────────────────────────
@@ -152,12 +684,76 @@ export async function getJobProgress(
 }
 
 export async function getSnapshot(
-    redisClient: RedisClientType
+    redisClient: RedisClientType,
+    universe: string = config.snapshotUniverse
 ): Promise<SnapshotEntry[] | null> {
-    const raw = await redisClient.get(SNAPSHOT_KEY);
+    const raw = await redisClient.get(snapshotKey(universe));
     return raw ? (JSON.parse(raw) as SnapshotEntry[]) : null;
 }
 
+/**
+ * How the current snapshot was built. Null for one stored before
+ * snapshots carried metadata.
+ */
+export async function getSnapshotMeta(
+    redisClient: RedisClientType,
+    universe: string = config.snapshotUniverse
+): Promise<SnapshotMeta | null> {
+    const raw = await redisClient.get(snapshotMetaKey(universe));
+    return raw ? (JSON.parse(raw) as SnapshotMeta) : null;
+}
+
+/**
+ * When a snapshot saved with this metadata expires from Redis
+ */
+export function snapshotExpiresAt(meta: SnapshotMeta): Date {
+    return new Date(Date.parse(meta.generatedAt) + SNAPSHOT_EXPIRY * 1000);
+}
+
+/**
+ * Sector yield stats computed when the current snapshot was saved.
+ * Null for one stored before stats were cached.
+ */
+export async function getSnapshotStats(
+    redisClient: RedisClientType,
+    universe: string = config.snapshotUniverse
+): Promise<SnapshotStats | null> {
+    const raw = await redisClient.get(snapshotStatsKey(universe));
+    return raw ? (JSON.parse(raw) as SnapshotStats) : null;
+}
+
+/**
+ * A running job stops after its current ticker and cleans up itself.
+ * A paused one has no worker, so its run is closed out here.
+ */
 export async function cancelJob(redisClient: RedisClientType): Promise<void> {
+    const status = await getJobStatus(redisClient);
     await redisClient.set(JOB_STATUS_KEY, 'idle' satisfies JobStatus);
+
+    if (status !== 'paused') return;
+
+    const saved = await loadCheckpoint(redisClient);
+    if (saved) {
+        const universe = saved.checkpoint.universe ?? config.snapshotUniverse;
+        const provider = (await getRun(redisClient, saved.checkpoint.runId))?.provider ?? config.marketDataProvider;
+        await savePartialSnapshot(redisClient, saved.checkpoint, saved.tickers, universe, provider);
+        await finishRun(redisClient, saved.checkpoint.runId, 'cancelled', runCounts(saved.checkpoint));
+        await publishSnapshotEvent(redisClient, {
+            type: 'finished',
+            outcome: 'cancelled',
+            runId: saved.checkpoint.runId,
+            at: new Date().toISOString(),
+            status: 'idle',
+            progress: progressOf(saved.checkpoint, saved.tickers.length),
+        });
+    }
+    await clearCheckpoint(redisClient);
+}
+
+/**
+ * Signals the running job to stop after its current ticker, keeping its
+ * checkpoint. Continue it with runSnapshotJob(…, { resume: true }).
+ */
+export async function pauseJob(redisClient: RedisClientType): Promise<void> {
+    await redisClient.set(JOB_STATUS_KEY, 'paused' satisfies JobStatus);
 }
\ No newline at end of file
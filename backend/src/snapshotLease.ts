@@ -0,0 +1,106 @@
+import { RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const LEASE_KEY = 'snapshot:job:lease';           // JobLease JSON; expires if the owner dies
+const SCHEDULE_CLAIM_PREFIX = 'snapshot:claim:';  // + slot → instance that took that scheduled run
+
+// The owner renews well within the TTL; a lease nobody renews for this long is up for grabs
+export const LEASE_TTL = 90;                          // seconds
+export const LEASE_RENEW_INTERVAL_MS = 30 * 1000;
+
+// Identifies this process as a lease owner
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Only touch the lease if this worker still holds it
+const RENEW_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).workerId == ARGV[1] then
+    redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+    return 1
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).workerId == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface JobLease {
+    workerId: string;
+    runId: string | null;    // Set once the run's checkpoint exists
+    acquiredAt: string;      // ISO timestamp
+    renewedAt: string;       // ISO timestamp
+}
+
+// ─── Lease ────────────────────────────────────────────────────────────────────
+
+/**
+ * Take the job lease if nobody holds it. Returns null when another
+ * worker owns it.
+ */
+export async function acquireLease(redisClient: RedisClientType): Promise<JobLease | null> {
+    const now = new Date().toISOString();
+    const lease: JobLease = { workerId: WORKER_ID, runId: null, acquiredAt: now, renewedAt: now };
+
+    const reply = await redisClient.set(LEASE_KEY, JSON.stringify(lease), { NX: true, EX: LEASE_TTL });
+    return reply === 'OK' ? lease : null;
+}
+
+/**
+ * Extend our lease. Returns false if it expired or was taken over,
+ * in which case the caller must stop working on the run.
+ */
+export async function renewLease(
+    redisClient: RedisClientType,
+    lease: JobLease
+): Promise<boolean> {
+    lease.renewedAt = new Date().toISOString();
+
+    const reply = await redisClient.eval(RENEW_SCRIPT, {
+        keys: [LEASE_KEY],
+        arguments: [WORKER_ID, JSON.stringify(lease), String(LEASE_TTL)],
+    });
+    return reply === 1;
+}
+
+export async function releaseLease(redisClient: RedisClientType): Promise<void> {
+    await redisClient.eval(RELEASE_SCRIPT, {
+        keys: [LEASE_KEY],
+        arguments: [WORKER_ID],
+    });
+}
+
+/**
+ * The current lease holder, or null if no live worker owns the job
+ */
+export async function getLease(redisClient: RedisClientType): Promise<JobLease | null> {
+    const raw = await redisClient.get(LEASE_KEY);
+    return raw ? (JSON.parse(raw) as JobLease) : null;
+}
+
+// ─── Scheduled runs ───────────────────────────────────────────────────────────
+
+/**
+ * Every instance's cron fires for the same slot; only the first to claim
+ * it starts the run. Without this, a fast run could finish and release
+ * the lease before a slower instance's cron fires, and run again.
+ */
+export async function claimScheduledRun(
+    redisClient: RedisClientType,
+    slot: string,
+    ttlSeconds: number = 24 * 60 * 60
+): Promise<boolean> {
+    const reply = await redisClient.set(`${SCHEDULE_CLAIM_PREFIX}${slot}`, WORKER_ID, {
+        NX: true,
+        EX: ttlSeconds,
+    });
+    return reply === 'OK';
+}
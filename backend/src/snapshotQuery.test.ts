@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseScreenerQuery, runScreenerQuery, type ScreenerQuery } from './snapshotQuery';
+import type { SnapshotEntry } from './snapshotJob';
+import { snapshotEntry as entry } from './testing/fixtures';
+
+function parse(query: Record<string, string>): ScreenerQuery {
+    const parsed = parseScreenerQuery(query);
+    if (typeof parsed === 'string') assert.fail(parsed);
+    return parsed;
+}
+
+/**
+ * Follow nextCursor until the last page; returns each page's tickers
+ */
+function pageThrough(snapshot: SnapshotEntry[], query: Record<string, string>): string[][] {
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+
+    do {
+        const page = runScreenerQuery(snapshot, parse(cursor ? { ...query, cursor } : query));
+        pages.push(page.rows.map(row => row.ticker!));
+        cursor = page.nextCursor;
+    } while (cursor && pages.length < 100);
+
+    return pages;
+}
+
+const snapshot = [
+    entry('AAA', { yield: 5 }),
+    entry('BBB', { yield: 7 }),
+    entry('CCC', { yield: 5 }),
+    entry('DDD', { yield: 2 }),
+    entry('EEE', { yield: 5 }),
+    entry('FFF', { yield: 9 }),
+];
+
+describe('screener cursors', () => {
+    it('pages through every row once, ties broken by ticker', () => {
+        const pages = pageThrough(snapshot, { sort: '-yield', limit: '2' });
+
+        assert.deepEqual(pages, [['FFF', 'BBB'], ['AAA', 'CCC'], ['EEE', 'DDD']]);
+    });
+
+    it('returns no cursor on the last page', () => {
+        const page = runScreenerQuery(snapshot, parse({ limit: '6' }));
+
+        assert.equal(page.rows.length, 6);
+        assert.equal(page.total, 6);
+        assert.equal(page.nextCursor, null);
+    });
+
+    it('keeps its place when rows before the boundary disappear', () => {
+        const first = runScreenerQuery(snapshot, parse({ sort: 'ticker', limit: '3' }));
+        const shrunk = snapshot.filter(e => e.ticker !== 'AAA');
+
+        const next = runScreenerQuery(shrunk, parse({ sort: 'ticker', limit: '3', cursor: first.nextCursor! }));
+
+        assert.deepEqual(next.rows.map(row => row.ticker), ['DDD', 'EEE', 'FFF']);
+    });
+
+    it('sorts nulls last in both directions', () => {
+        const withNulls = [
+            entry('AAA', { marketCap: null }),
+            entry('BBB', { marketCap: 2e9 }),
+            entry('CCC', { marketCap: 1e9 }),
+        ];
+
+        assert.deepEqual(pageThrough(withNulls, { sort: 'marketCap', limit: '1' }).flat(), ['CCC', 'BBB', 'AAA']);
+        assert.deepEqual(pageThrough(withNulls, { sort: '-marketCap', limit: '1' }).flat(), ['BBB', 'CCC', 'AAA']);
+    });
+
+    it('rejects a cursor from a different sort order', () => {
+        const page = runScreenerQuery(snapshot, parse({ sort: '-yield', limit: '2' }));
+
+        assert.equal(
+            parseScreenerQuery({ sort: 'yield', cursor: page.nextCursor! }),
+            'cursor belongs to a different sort order'
+        );
+    });
+
+    it('rejects a malformed cursor', () => {
+        assert.equal(parseScreenerQuery({ cursor: 'not-a-cursor' }), 'cursor is not valid');
+    });
+});
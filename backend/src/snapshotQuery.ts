@@ -0,0 +1,259 @@
+import type { Request } from 'express';
+import type { SnapshotEntry } from './snapshotJob';
+import { UNCLASSIFIED_INDUSTRY } from './industryBreakdown';
+import { getSectorBuckets } from './sectors';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_QUERY_LIMIT = 100;
+export const MAX_QUERY_LIMIT = 1000;
+
+// Highest yield first unless the caller sorts otherwise
+const DEFAULT_SORT = '-yield';
+
+const SORT_KEYS = [
+    'ticker', 'name', 'sector', 'industry', 'yield',
+    'dividendPerShare', 'payoutRatio', 'marketCap', 'eps', 'exDividendDate',
+] as const;
+
+const PROJECTABLE_FIELDS = [
+    'ticker', 'name', 'sector', 'rawSector', 'industry', 'yield', 'dividendPerShare', 'payoutRatio',
+    'exDividendDate', 'dividendDate', 'marketCap', 'eps', 'growth',
+] as const satisfies readonly (keyof SnapshotEntry)[];
+
+// Query parameter → field it bounds
+const RANGE_FILTERS = {
+    minYield: 'yield',
+    maxYield: 'yield',
+    minPayoutRatio: 'payoutRatio',
+    maxPayoutRatio: 'payoutRatio',
+    minMarketCap: 'marketCap',
+    maxMarketCap: 'marketCap',
+} as const;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type SortKey = typeof SORT_KEYS[number];
+type ProjectableField = typeof PROJECTABLE_FIELDS[number];
+type RangeFilter = keyof typeof RANGE_FILTERS;
+type SortValue = string | number | null;
+
+interface SortTerm {
+    key: SortKey;
+    descending: boolean;
+}
+
+export interface ScreenerQuery {
+    sectors: Set<string> | null;        // Lowercased bucket names
+    industries: Set<string> | null;     // Lowercased
+    ranges: Partial<Record<RangeFilter, number>>;
+    sort: SortTerm[];
+    sortSpec: string;                   // As requested; cursors are tied to it
+    fields: ProjectableField[] | null;  // null = every field
+    limit: number;
+    after: SortValue[] | null;          // Sort values of the last row already returned
+}
+
+export interface ScreenerPage {
+    rows: Partial<SnapshotEntry>[];
+    total: number;                      // Rows matching the filters, across all pages
+    nextCursor: string | null;
+}
+
+interface Cursor {
+    sort: string;
+    after: SortValue[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function listParam(value: unknown): string[] | null | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') return null;
+
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+function sortValue(entry: SnapshotEntry, key: SortKey): SortValue {
+    if (key === 'industry') return entry.industry || UNCLASSIFIED_INDUSTRY;
+    return entry[key] ?? null;
+}
+
+/**
+ * Sort values plus the ticker, which breaks ties so every row has a
+ * unique position for cursors to point at
+ */
+function sortTuple(entry: SnapshotEntry, sort: SortTerm[]): SortValue[] {
+    return [...sort.map(term => sortValue(entry, term.key)), entry.ticker];
+}
+
+/**
+ * Nulls sort last in either direction
+ */
+function compareTuples(a: SortValue[], b: SortValue[], sort: SortTerm[]): number {
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i];
+        const y = b[i];
+        if (x === y) continue;
+        if (x === null) return 1;
+        if (y === null) return -1;
+
+        const order = typeof x === 'number' && typeof y === 'number'
+            ? x - y
+            : String(x).localeCompare(String(y));
+        if (order === 0) continue;
+
+        return sort[i]?.descending ? -order : order;
+    }
+    return 0;
+}
+
+function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor | null {
+    try {
+        const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Cursor;
+        return typeof cursor.sort === 'string' && Array.isArray(cursor.after) ? cursor : null;
+    } catch {
+        return null;
+    }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Read a screener query from the query string.
+ * Returns an error message instead when a value is malformed.
+ *
+ *   ?sector=Energy,Utilities&industry=Oil & Gas Integrated
+ *   &minYield=4&maxYield=8&minPayoutRatio=&maxPayoutRatio=&minMarketCap=&maxMarketCap=
+ *   &sort=-yield,ticker&fields=ticker,name,yield&limit=100&cursor=…
+ */
+export function parseScreenerQuery(query: Request['query']): ScreenerQuery | string {
+    const sectors = listParam(query.sector);
+    if (sectors === null) return 'sector must be a comma-separated list';
+    if (sectors) {
+        const known = new Set(getSectorBuckets().map(bucket => bucket.name.toLowerCase()));
+        const unknown = sectors.find(sector => !known.has(sector.toLowerCase()));
+        if (unknown) return `Unknown sector "${unknown}". See /api/sectors.`;
+    }
+
+    const industries = listParam(query.industry);
+    if (industries === null) return 'industry must be a comma-separated list';
+
+    const ranges: ScreenerQuery['ranges'] = {};
+    for (const key of Object.keys(RANGE_FILTERS) as RangeFilter[]) {
+        const raw = query[key];
+        if (raw === undefined) continue;
+
+        const value = typeof raw === 'string' ? Number(raw) : NaN;
+        if (raw === '' || !Number.isFinite(value)) return `${key} must be a number`;
+        ranges[key] = value;
+    }
+
+    for (const [min, max] of [
+        ['minYield', 'maxYield'], ['minPayoutRatio', 'maxPayoutRatio'], ['minMarketCap', 'maxMarketCap'],
+    ] as const) {
+        const low = ranges[min];
+        const high = ranges[max];
+        if (low !== undefined && high !== undefined && low > high) return `${min} must not exceed ${max}`;
+    }
+
+    const sortSpec = query.sort ?? DEFAULT_SORT;
+    const sortTerms = listParam(sortSpec);
+    if (!sortTerms || sortTerms.length === 0) return 'sort must be a comma-separated list of fields';
+
+    const sort: SortTerm[] = [];
+    for (const term of sortTerms) {
+        const descending = term.startsWith('-');
+        const key = (descending ? term.slice(1) : term) as SortKey;
+        if (!SORT_KEYS.includes(key)) return `sort must use ${SORT_KEYS.join(', ')} (prefix - for descending)`;
+        sort.push({ key, descending });
+    }
+
+    let fields: ProjectableField[] | null = null;
+    const requestedFields = listParam(query.fields);
+    if (requestedFields === null) return 'fields must be a comma-separated list';
+    if (requestedFields) {
+        const unknown = requestedFields.find(field => !(PROJECTABLE_FIELDS as readonly string[]).includes(field));
+        if (unknown) return `Unknown field "${unknown}". Use ${PROJECTABLE_FIELDS.join(', ')}.`;
+
+        // Always return the ticker so rows can be told apart
+        fields = [...new Set(['ticker', ...requestedFields])] as ProjectableField[];
+    }
+
+    const limit = query.limit === undefined ? DEFAULT_QUERY_LIMIT : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+        return `limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`;
+    }
+
+    let after: SortValue[] | null = null;
+    if (query.cursor !== undefined) {
+        const cursor = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+        if (!cursor) return 'cursor is not valid';
+        if (cursor.sort !== sortSpec || cursor.after.length !== sort.length + 1) {
+            return 'cursor belongs to a different sort order';
+        }
+        after = cursor.after;
+    }
+
+    return {
+        sectors: sectors ? new Set(sectors.map(s => s.toLowerCase())) : null,
+        industries: industries ? new Set(industries.map(i => i.toLowerCase())) : null,
+        ranges,
+        sort,
+        sortSpec: sortSpec as string,
+        fields,
+        limit,
+        after,
+    };
+}
+
+// ─── Querying ─────────────────────────────────────────────────────────────────
+
+function inRange(value: number | null, min: number | undefined, max: number | undefined): boolean {
+    if (min === undefined && max === undefined) return true;
+    if (value === null) return false;
+    return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function project(entry: SnapshotEntry, fields: ProjectableField[] | null): Partial<SnapshotEntry> {
+    if (!fields) return entry;
+    return Object.fromEntries(fields.map(field => [field, entry[field]]));
+}
+
+/**
+ * Filter, sort and page through a snapshot. Pages are keyed on the last
+ * row's sort values rather than an offset, so a page boundary stays put
+ * if the snapshot is rebuilt between requests.
+ */
+export function runScreenerQuery(snapshot: SnapshotEntry[], query: ScreenerQuery): ScreenerPage {
+    const { ranges } = query;
+
+    const matches = snapshot.filter(entry =>
+        (!query.sectors || query.sectors.has(entry.sector.toLowerCase())) &&
+        (!query.industries || query.industries.has((entry.industry || UNCLASSIFIED_INDUSTRY).toLowerCase())) &&
+        inRange(entry.yield, ranges.minYield, ranges.maxYield) &&
+        inRange(entry.payoutRatio, ranges.minPayoutRatio, ranges.maxPayoutRatio) &&
+        inRange(entry.marketCap, ranges.minMarketCap, ranges.maxMarketCap)
+    );
+
+    const sorted = matches
+        .map(entry => ({ entry, tuple: sortTuple(entry, query.sort) }))
+        .sort((a, b) => compareTuples(a.tuple, b.tuple, query.sort));
+
+    const after = query.after;
+    const start = after ? sorted.findIndex(row => compareTuples(row.tuple, after, query.sort) > 0) : 0;
+    const page = start === -1 ? [] : sorted.slice(start, start + query.limit);
+
+    const last = page[page.length - 1];
+    const hasMore = start !== -1 && start + page.length < sorted.length;
+
+    return {
+        rows: page.map(row => project(row.entry, query.fields)),
+        total: matches.length,
+        nextCursor: hasMore && last ? encodeCursor({ sort: query.sortSpec, after: last.tuple }) : null,
+    };
+}
@@ -1,13 +1,53 @@
 import express, { Request, Response, Router } from 'express';
 import { RedisClientType } from 'redis';
 import rateLimit from 'express-rate-limit';
+import config from './config/config';
 import {
     runSnapshotJob,
     getJobStatus,
     getJobProgress,
     getSnapshot,
+    getSnapshotMeta,
+    getSnapshotStats,
+    snapshotExpiresAt,
     cancelJob,
+    pauseJob,
+    type SnapshotMeta,
 } from  './snapshotJob';
+import { filterByGrowth, type GrowthFilters } from './dividendAnalytics';
+import {
+    getSnapshotVersion,
+    getSnapshotVersionInfo,
+    isSnapshotDate,
+    listSnapshotVersions,
+    type SnapshotVersion,
+} from './snapshotHistory';
+import { diffSnapshots } from './snapshotDiff';
+import { getLease } from './snapshotLease';
+import { getRun, getRunFailures, listRuns } from './snapshotRuns';
+import { summarizeIndustries } from './industryBreakdown';
+import { getSectorBuckets } from './sectors';
+import { validateScheduleChanges, type ScheduleChanges, type SnapshotScheduler } from './snapshotSchedule';
+import { getUniverse } from './universes';
+import { parseScreenerQuery, runScreenerQuery } from './snapshotQuery';
+import { computeSnapshotStats, parseBinEdges } from './snapshotStats';
+import { sendJson, sendNotModified, type CacheValidators } from './conditionalResponse';
+import {
+    isEventAfter,
+    isEventId,
+    readSnapshotEventsSince,
+    subscribeSnapshotEvents,
+    type SnapshotEvent,
+} from './snapshotEvents';
+
+// Yield moves smaller than this (percentage points) are left out of diffs
+const DEFAULT_DIFF_THRESHOLD = 0.5;
+
+// SSE comment sent this often so proxies don't close an idle progress stream
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000;
+
+const DEFAULT_RUNS_LIMIT = 20;
+const MAX_RUNS_LIMIT = 100;
 
 const triggerLimiter = rateLimit({
     windowMs: 60 * 60 * 1000, // 1 hour
@@ -15,15 +55,112 @@ const triggerLimiter = rateLimit({
     message: { error: 'RATE_LIMIT', message: 'Snapshot job trigger limit reached.' },
 });
 
-export function createSnapshotRoutes(redisClient: RedisClientType): Router {
+const NUMERIC_GROWTH_FILTERS = [
+    'minRaises', 'maxCuts', 'minCagr1y', 'minCagr3y', 'minCagr5y', 'minCagr10y',
+] as const;
+
+/**
+ * Read growth filters from the query string.
+ * Returns an error message instead when a value is malformed.
+ */
+function parseGrowthFilters(query: Request['query']): GrowthFilters | string {
+    const filters: GrowthFilters = {};
+
+    const { classification } = query;
+    if (classification !== undefined) {
+        if (classification !== 'aristocrat' && classification !== 'king') {
+            return 'classification must be "aristocrat" or "king"';
+        }
+        filters.classification = classification;
+    }
+
+    for (const key of NUMERIC_GROWTH_FILTERS) {
+        const raw = query[key];
+        if (raw === undefined) continue;
+
+        const value = typeof raw === 'string' ? Number(raw) : NaN;
+        if (raw === '' || !Number.isFinite(value)) {
+            return `${key} must be a number`;
+        }
+        filters[key] = value;
+    }
+
+    return filters;
+}
+
+/**
+ * Validators for responses derived from one saved snapshot. Any rebuild,
+ * partial or complete, gets a new generatedAt and so a new ETag.
+ */
+function snapshotValidators(meta: SnapshotMeta): CacheValidators {
+    return {
+        etag: `W/"${meta.schemaVersion}-${meta.runId}-${Date.parse(meta.generatedAt)}"`,
+        lastModified: new Date(meta.generatedAt),
+        expiresAt: snapshotExpiresAt(meta),
+    };
+}
+
+/**
+ * Validators for a dated version. Only today's can still be replaced (by
+ * another run today); earlier ones are fixed until they're pruned.
+ */
+function versionValidators(version: SnapshotVersion): CacheValidators {
+    const today = new Date().toISOString().slice(0, 10);
+    const prunedAt = Date.parse(version.date) + (config.snapshotRetentionDays + 1) * 24 * 60 * 60 * 1000;
+
+    return {
+        etag: `W/"${version.date}-${Date.parse(version.savedAt)}"`,
+        lastModified: new Date(version.savedAt),
+        expiresAt: version.date === today ? new Date() : new Date(prunedAt),
+    };
+}
+
+export function createSnapshotRoutes(redisClient: RedisClientType, scheduler: SnapshotScheduler): Router {
     const router = express.Router();
 
     /**
      * GET /api/snapshot
-     * Returns the pre-built snapshot if it exists.
+     * Returns the pre-built snapshot if it exists, with `meta`: when and
+     * how it was generated (run times, provider, schema version) and
+     * `coverage`, the run's ticker counts. `meta.complete` is false when it
+     * was saved from a cancelled or failed run. `meta` is null for a
+     * snapshot stored before metadata was kept.
+     *
+     * Optional: ?universe=<id> for a universe other than SNAPSHOT_UNIVERSE
+     * (see GET /api/universes).
+     *
+     * Optional growth filters:
+     *   ?classification=aristocrat|king
+     *   &minRaises=10&maxCuts=0
+     *   &minCagr1y=&minCagr3y=&minCagr5y=&minCagr10y=   (percent)
+     *
+     * This, /query, /stats and /:date send an ETag and Last-Modified for the
+     * snapshot version, answer If-None-Match / If-Modified-Since with 304,
+     * and may be cached until the snapshot expires. Snapshot responses are
+     * compressed with brotli or gzip when accepted.
      */
     router.get('/', async (req: Request, res: Response) => {
-        const snapshot = await getSnapshot(redisClient);
+        const filters = parseGrowthFilters(req.query);
+        if (typeof filters === 'string') {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: filters,
+            });
+        }
+
+        const { universe = config.snapshotUniverse } = req.query;
+        if (typeof universe !== 'string' || !getUniverse(universe)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'universe must be one of the ids listed at /api/universes',
+            });
+        }
+
+        const meta = await getSnapshotMeta(redisClient, universe);
+        const validators = meta ? snapshotValidators(meta) : undefined;
+        if (validators && sendNotModified(req, res, validators)) return;
+
+        const snapshot = await getSnapshot(redisClient, universe);
 
         if (!snapshot) {
             const status = await getJobStatus(redisClient);
@@ -35,109 +172,317 @@ export function createSnapshotRoutes(redisClient: RedisClientType): Router {
             });
         }
 
-        return res.json({
+        const data = filterByGrowth(snapshot, filters);
+
+        return sendJson(req, res, {
             success: true,
-            data: snapshot,
-            count: snapshot.length,
-        });
+            data,
+            count: data.length,
+            meta,
+        }, validators);
+    });
+
+    /**
+     * GET /api/snapshot/query
+     * Screener over the snapshot, run server-side so callers only receive
+     * the rows they asked for.
+     *
+     * Filters:     ?sector=Energy,Utilities&industry=...   (comma-separated, any case)
+     *              &minYield=4&maxYield=8 &minPayoutRatio=&maxPayoutRatio=
+     *              &minMarketCap=&maxMarketCap=           (plus the growth filters of GET /)
+     * Sort:        &sort=-yield,ticker                     (default -yield; ticker breaks ties)
+     * Projection:  &fields=ticker,name,yield               (ticker is always included)
+     * Paging:      &limit=100 (max 1000) &cursor=<nextCursor from the previous page>
+     * Optional:    &universe=<id>
+     */
+    router.get('/query', async (req: Request, res: Response) => {
+        const query = parseScreenerQuery(req.query);
+        if (typeof query === 'string') {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: query,
+            });
+        }
+
+        const filters = parseGrowthFilters(req.query);
+        if (typeof filters === 'string') {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: filters,
+            });
+        }
+
+        const { universe = config.snapshotUniverse } = req.query;
+        if (typeof universe !== 'string' || !getUniverse(universe)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'universe must be one of the ids listed at /api/universes',
+            });
+        }
+
+        const meta = await getSnapshotMeta(redisClient, universe);
+        const validators = meta ? snapshotValidators(meta) : undefined;
+        if (validators && sendNotModified(req, res, validators)) return;
+
+        const snapshot = await getSnapshot(redisClient, universe);
+
+        if (!snapshot) {
+            return res.status(404).json({
+                error: 'NOT_READY',
+                message: 'No snapshot available. POST /api/snapshot/trigger to start building one.',
+            });
+        }
+
+        const page = runScreenerQuery(filterByGrowth(snapshot, filters), query);
+
+        return sendJson(req, res, {
+            success: true,
+            data: page.rows,
+            count: page.rows.length,
+            total: page.total,
+            nextCursor: page.nextCursor,
+        }, validators);
+    });
+
+    /**
+     * GET /api/snapshot/stats
+     * Yield count, mean, median, min/max, p10/p25/p75/p90 and histogram
+     * for each sector bucket and for the whole snapshot. Computed when the
+     * snapshot was saved; custom bins are computed on request.
+     *
+     *   ?bins=0,2,4,6,10   (histogram edges in percent; default SNAPSHOT_STATS_BINS)
+     *   &universe=<id>
+     */
+    router.get('/stats', async (req: Request, res: Response) => {
+        let edges: number[] | null = null;
+        if (req.query.bins !== undefined) {
+            const parsed = typeof req.query.bins === 'string' ? parseBinEdges(req.query.bins) : 'bins must be a comma-separated list';
+            if (typeof parsed === 'string') {
+                return res.status(400).json({
+                    error: 'VALIDATION_ERROR',
+                    message: parsed,
+                });
+            }
+            edges = parsed;
+        }
+
+        const { universe = config.snapshotUniverse } = req.query;
+        if (typeof universe !== 'string' || !getUniverse(universe)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'universe must be one of the ids listed at /api/universes',
+            });
+        }
+
+        const meta = await getSnapshotMeta(redisClient, universe);
+        const validators = meta ? snapshotValidators(meta) : undefined;
+        if (validators && sendNotModified(req, res, validators)) return;
+
+        const cached = await getSnapshotStats(redisClient, universe);
+        if (cached && (!edges || edges.join() === cached.binEdges.join())) {
+            return sendJson(req, res, { success: true, data: cached }, validators);
+        }
+
+        // Other bins, or a snapshot saved before stats were cached
+        const snapshot = await getSnapshot(redisClient, universe);
+
+        if (!snapshot) {
+            return res.status(404).json({
+                error: 'NOT_READY',
+                message: 'No snapshot available. POST /api/snapshot/trigger to start building one.',
+            });
+        }
+
+        const data = computeSnapshotStats(
+            snapshot,
+            { universe, generatedAt: meta?.generatedAt ?? null },
+            edges ?? undefined
+        );
+
+        return sendJson(req, res, { success: true, data }, validators);
     });
 
     /**
      * GET /api/snapshot/status
-     * Returns current job status and progress.
+     * Returns current job status and progress, and the current snapshot's
+     * metadata (see GET /api/snapshot).
+     * `owner` is the instance holding the job lease, whichever replica
+     * answers. `stale` means the run's worker died without releasing it;
+     * the next trigger (or a restart) resumes it from its checkpoint.
      */
     router.get('/status', async (req: Request, res: Response) => {
-        const [status, progress, snapshot] = await Promise.all([
+        const [status, progress, snapshot, meta, owner] = await Promise.all([
             getJobStatus(redisClient),
             getJobProgress(redisClient),
             getSnapshot(redisClient),
+            getSnapshotMeta(redisClient),
+            getLease(redisClient),
         ]);
 
         res.json({
             status,
             progress,
+            owner,
+            stale: status === 'running' && owner === null,
             snapshotReady: snapshot !== null,
             snapshotCount: snapshot?.length ?? 0,
+            snapshotComplete: snapshot !== null && (meta?.complete ?? true),
+            snapshotMeta: snapshot !== null ? meta : null,
         });
     });
 
     /**
      * GET /api/snapshot/progress (Server-Sent Events)
      *
-     * Streams live progress to the client so a progress bar can be shown
-     * while the job runs. The frontend connects once and receives updates
-     * every 3 seconds without polling.
+     * Streams job events to the client as they happen: a ticker done or
+     * failed, a phase change, the run finishing. Every message carries the
+     * job's `status` and `progress`, plus the event's `type` and details.
+     * A `{ type: "status" }` message with the current state comes first.
+     *
+     * Events have ids; a reconnecting client sends Last-Event-ID (or
+     * ?lastEventId=) and gets the events it missed replayed. The stream
+     * closes once the job is no longer running.
      *
      * Usage:
      *   const source = new EventSource('/api/snapshot/progress');
      *   source.onmessage = (e) => {
-     *     const { status, progress } = JSON.parse(e.data);
+     *     const { type, status, progress } = JSON.parse(e.data);
      *   };
      */
     router.get('/progress', async (req: Request, res: Response) => {
+        const lastEventId = req.header('Last-Event-ID') ?? req.query.lastEventId;
+        if (lastEventId !== undefined && (typeof lastEventId !== 'string' || !isEventId(lastEventId))) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'Last-Event-ID must be an event id from this stream',
+            });
+        }
+
         res.setHeader('Content-Type', 'text/event-stream');
         res.setHeader('Cache-Control', 'no-cache');
         res.setHeader('Connection', 'keep-alive');
         res.flushHeaders();
 
-        const send = (data: object) => {
-            res.write(`data: ${JSON.stringify(data)}\n\n`);
+        let lastSent = lastEventId ?? null;
+        let closed = false;
+        let unsubscribe: (() => void) | null = null;
+
+        // Live events are held back until the replay is out, so none fall in between
+        let pending: SnapshotEvent[] | null = [];
+
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            clearInterval(keepAlive);
+            unsubscribe?.();
+            res.end();
         };
 
-        const interval = setInterval(async () => {
-            const [status, progress] = await Promise.all([
-                getJobStatus(redisClient),
-                getJobProgress(redisClient),
-            ]);
+        const send = (event: SnapshotEvent) => {
+            // Replayed and live events can overlap
+            if (closed || (lastSent && !isEventAfter(event.id, lastSent))) return;
+            lastSent = event.id;
 
-            send({ status, progress });
+            res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+            if (event.status !== 'running') close();
+        };
 
-            // Close the stream once job is no longer running
-            if (status !== 'running') {
-                clearInterval(interval);
-                res.end();
-            }
-        }, 3000); // Poll Redis every 3 seconds
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+        req.on('close', close);
 
-        // Clean up if the client disconnects
-        req.on('close', () => clearInterval(interval));
+        // Subscribe before reading anything
+        unsubscribe = await subscribeSnapshotEvents(redisClient, event => {
+            if (pending) pending.push(event);
+            else send(event);
+        });
+        if (closed) return unsubscribe();
+
+        const [status, progress] = await Promise.all([
+            getJobStatus(redisClient),
+            getJobProgress(redisClient),
+        ]);
+
+        if (lastEventId) {
+            (await readSnapshotEventsSince(redisClient, lastEventId)).forEach(send);
+        } else if (!closed) {
+            res.write(`data: ${JSON.stringify({ type: 'status', status, progress })}\n\n`);
+        }
+
+        const held = pending;
+        pending = null;
+        held.forEach(send);
+
+        if (status !== 'running') close();
     });
 
     /**
      * POST /api/snapshot/trigger
      * Manually trigger the snapshot job (also called by the cron).
      * Runs the job asynchronously — returns immediately.
+     * A stale run (dead worker) is resumed rather than rejected.
+     *
+     * Optional: ?mode=full|incremental (or { "mode": ... } in the body),
+     * defaulting to SNAPSHOT_MODE, and ?universe=<id> (or { "universe": ... })
+     * to build one universe's snapshot, defaulting to SNAPSHOT_UNIVERSE.
      */
     router.post('/trigger', triggerLimiter, async (req: Request, res: Response) => {
-        const status = await getJobStatus(redisClient);
+        const mode = req.query.mode ?? req.body?.mode;
+        if (mode !== undefined && mode !== 'full' && mode !== 'incremental') {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'mode must be "full" or "incremental"',
+            });
+        }
+
+        const universe = req.query.universe ?? req.body?.universe;
+        if (universe !== undefined && (typeof universe !== 'string' || !getUniverse(universe))) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'universe must be one of the ids listed at /api/universes',
+            });
+        }
+
+        const [owner, status] = await Promise.all([getLease(redisClient), getJobStatus(redisClient)]);
+
+        if (owner) {
+            return res.status(409).json({
+                error: 'CONFLICT',
+                message: `A snapshot job is already running on ${owner.workerId}.`,
+            });
+        }
 
-        if (status === 'running') {
+        if (status === 'paused') {
             return res.status(409).json({
                 error: 'CONFLICT',
-                message: 'A snapshot job is already running.',
+                message: 'A snapshot job is paused. Resume or cancel it first.',
             });
         }
 
         // Fire and forget — the job runs in the background
-        runSnapshotJob(redisClient).catch(err => {
+        // The job records its own failure (status, run history, events)
+        runSnapshotJob(redisClient, { mode, universe }).catch(err => {
             console.error('[snapshot] Job failed with unhandled error:', err);
-            redisClient.set('snapshot:job:status', 'failed');
         });
 
         return res.json({
             success: true,
+            mode: mode ?? config.snapshotMode,
+            universe: universe ?? config.snapshotUniverse,
             message: 'Snapshot job started. Poll /api/snapshot/progress for updates.',
         });
     });
 
     /**
      * DELETE /api/snapshot/cancel
-     * Signals the running job to stop after its current ticker.
+     * Signals the running job to stop after its current ticker. What it
+     * fetched so far is saved as a partial snapshot (`meta.complete: false`,
+     * with coverage) and the run can't be resumed. A paused job is
+     * stopped straight away.
      */
     router.delete('/cancel', async (req: Request, res: Response) => {
         const status = await getJobStatus(redisClient);
 
-        if (status !== 'running') {
+        if (status !== 'running' && status !== 'paused') {
             return res.status(400).json({
                 error: 'NOT_RUNNING',
                 message: 'No job is currently running.',
@@ -148,5 +493,303 @@ export function createSnapshotRoutes(redisClient: RedisClientType): Router {
         return res.json({ success: true, message: 'Cancel signal sent.' });
     });
 
+    /**
+     * POST /api/snapshot/pause
+     * Signals the running job to stop after its current ticker, keeping
+     * its position. Scheduled and manual triggers are refused until it is
+     * resumed or cancelled.
+     */
+    router.post('/pause', async (req: Request, res: Response) => {
+        const status = await getJobStatus(redisClient);
+
+        if (status !== 'running') {
+            return res.status(400).json({
+                error: 'NOT_RUNNING',
+                message: 'No job is currently running.',
+            });
+        }
+
+        await pauseJob(redisClient);
+        return res.json({ success: true, message: 'Pause signal sent.' });
+    });
+
+    /**
+     * POST /api/snapshot/resume
+     * Continues a paused job from where it stopped, on this instance.
+     */
+    router.post('/resume', async (req: Request, res: Response) => {
+        const [status, owner] = await Promise.all([getJobStatus(redisClient), getLease(redisClient)]);
+
+        if (status !== 'paused') {
+            return res.status(400).json({
+                error: 'NOT_PAUSED',
+                message: 'No job is currently paused.',
+            });
+        }
+
+        // The worker hasn't reached the end of its current ticker yet
+        if (owner) {
+            return res.status(409).json({
+                error: 'CONFLICT',
+                message: `The job on ${owner.workerId} is still pausing. Try again shortly.`,
+            });
+        }
+
+        runSnapshotJob(redisClient, { resume: true }).catch(err => {
+            console.error('[snapshot] Job failed with unhandled error:', err);
+        });
+
+        return res.json({
+            success: true,
+            message: 'Snapshot job resumed. Poll /api/snapshot/progress for updates.',
+        });
+    });
+
+    /**
+     * GET /api/snapshot/schedule
+     * The schedule the job runs on, and when this instance fires next
+     * (null while disabled).
+     */
+    router.get('/schedule', async (req: Request, res: Response) => {
+        const schedule = await scheduler.getSchedule();
+
+        res.json({
+            success: true,
+            data: { ...schedule, nextRun: scheduler.getNextRun()?.toISOString() ?? null },
+        });
+    });
+
+    /**
+     * PUT /api/snapshot/schedule
+     * Body: { "cron"?: "0 2 * * *", "timezone"?: "America/New_York", "enabled"?: true }
+     * Omitted fields keep their current value. Applies to every instance.
+     */
+    router.put('/schedule', async (req: Request, res: Response) => {
+        const body = (req.body ?? {}) as Record<string, unknown>;
+
+        const invalid = validateScheduleChanges(body);
+        if (invalid) {
+            return res.status(400).json({ error: 'VALIDATION_ERROR', message: invalid });
+        }
+
+        const { cron, timezone, enabled } = body as ScheduleChanges;
+        const schedule = await scheduler.update({ cron, timezone, enabled });
+
+        return res.json({
+            success: true,
+            data: { ...schedule, nextRun: scheduler.getNextRun()?.toISOString() ?? null },
+        });
+    });
+
+    /**
+     * DELETE /api/snapshot/schedule
+     * Disables scheduled runs. Re-enable with PUT { "enabled": true }.
+     */
+    router.delete('/schedule', async (req: Request, res: Response) => {
+        const schedule = await scheduler.update({ enabled: false });
+
+        res.json({
+            success: true,
+            data: { ...schedule, nextRun: null },
+        });
+    });
+
+    /**
+     * GET /api/snapshot/history
+     * Lists retained snapshot versions, newest first.
+     */
+    router.get('/history', async (req: Request, res: Response) => {
+        const versions = await listSnapshotVersions(redisClient);
+
+        res.json({
+            success: true,
+            data: versions,
+            count: versions.length,
+        });
+    });
+
+    /**
+     * GET /api/snapshot/diff?from=YYYY-MM-DD&to=YYYY-MM-DD&threshold=0.5
+     * Compares two snapshot versions. Defaults to the two most recent.
+     */
+    router.get('/diff', async (req: Request, res: Response) => {
+        const { from, to, threshold = String(DEFAULT_DIFF_THRESHOLD) } = req.query;
+
+        for (const [name, value] of [['from', from], ['to', to]] as const) {
+            if (value !== undefined && (typeof value !== 'string' || !isSnapshotDate(value))) {
+                return res.status(400).json({
+                    error: 'VALIDATION_ERROR',
+                    message: `${name} must be in YYYY-MM-DD format`,
+                });
+            }
+        }
+
+        const minChange = typeof threshold === 'string' ? Number(threshold) : NaN;
+        if (!Number.isFinite(minChange) || minChange < 0) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'threshold must be a non-negative number',
+            });
+        }
+
+        let fromDate = from as string | undefined;
+        let toDate = to as string | undefined;
+
+        if (!fromDate || !toDate) {
+            const dates = (await listSnapshotVersions(redisClient)).map(v => v.date);
+            toDate = toDate ?? dates[0];
+            fromDate = fromDate ?? dates.find(date => toDate !== undefined && date < toDate);
+        }
+
+        if (!fromDate || !toDate) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: 'At least two snapshot versions are needed for a diff. See /api/snapshot/history.',
+            });
+        }
+
+        const [before, after] = await Promise.all([
+            getSnapshotVersion(redisClient, fromDate),
+            getSnapshotVersion(redisClient, toDate),
+        ]);
+
+        const missing = [[fromDate, before], [toDate, after]]
+            .filter(([, snapshot]) => !snapshot)
+            .map(([date]) => date);
+
+        if (missing.length > 0) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No snapshot saved for ${missing.join(', ')}. See /api/snapshot/history.`,
+            });
+        }
+
+        return res.json({
+            success: true,
+            from: fromDate,
+            to: toDate,
+            data: diffSnapshots(before!, after!, minChange),
+        });
+    });
+
+    /**
+     * GET /api/snapshot/runs?limit=20
+     * Recent job runs, newest first, with their ticker counts.
+     */
+    router.get('/runs', async (req: Request, res: Response) => {
+        const { limit = String(DEFAULT_RUNS_LIMIT) } = req.query;
+        const count = typeof limit === 'string' ? Number(limit) : NaN;
+
+        if (!Number.isInteger(count) || count < 1 || count > MAX_RUNS_LIMIT) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: `limit must be an integer between 1 and ${MAX_RUNS_LIMIT}`,
+            });
+        }
+
+        const runs = await listRuns(redisClient, count);
+
+        return res.json({
+            success: true,
+            data: runs,
+            count: runs.length,
+        });
+    });
+
+    /**
+     * GET /api/snapshot/runs/:id
+     * One run with the failure reason for each ticker it couldn't fetch.
+     */
+    router.get('/runs/:id', async (req: Request, res: Response) => {
+        const id = <string>req.params.id;
+        const run = await getRun(redisClient, id);
+
+        if (!run) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No run with id ${id}. See /api/snapshot/runs.`,
+            });
+        }
+
+        const failures = await getRunFailures(redisClient, id);
+
+        return res.json({
+            success: true,
+            data: { ...run, failures },
+        });
+    });
+
+    /**
+     * GET /api/snapshot/sectors/:sector/industries
+     * Per-industry counts and yields within one sector bucket (case-insensitive).
+     */
+    router.get('/sectors/:sector/industries', async (req: Request, res: Response) => {
+        const requested = (<string>req.params.sector).toLowerCase();
+        const bucket = getSectorBuckets().find(b => b.name.toLowerCase() === requested);
+
+        if (!bucket) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `Unknown sector "${req.params.sector}". See /api/sectors.`,
+            });
+        }
+
+        const snapshot = await getSnapshot(redisClient);
+
+        if (!snapshot) {
+            return res.status(404).json({
+                error: 'NOT_READY',
+                message: 'No snapshot available. POST /api/snapshot/trigger to start building one.',
+            });
+        }
+
+        const data = summarizeIndustries(snapshot, bucket.name);
+
+        return res.json({
+            success: true,
+            sector: bucket.name,
+            data,
+            count: data.length,
+        });
+    });
+
+    /**
+     * GET /api/snapshot/:date
+     * Returns the snapshot saved on a given day (YYYY-MM-DD), with the same
+     * validators and 304 handling as GET /. Past days' versions can be
+     * cached until they're pruned; today's is revalidated every time.
+     * Registered last so it doesn't shadow the named routes above.
+     */
+    router.get('/:date', async (req: Request, res: Response) => {
+        const date = <string>req.params.date;
+
+        if (!isSnapshotDate(date)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'Date must be in YYYY-MM-DD format',
+            });
+        }
+
+        const version = await getSnapshotVersionInfo(redisClient, date);
+        const validators = version ? versionValidators(version) : undefined;
+        if (validators && sendNotModified(req, res, validators)) return;
+
+        const snapshot = await getSnapshotVersion(redisClient, date);
+
+        if (!snapshot) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No snapshot saved for ${date}. See /api/snapshot/history.`,
+            });
+        }
+
+        return sendJson(req, res, {
+            success: true,
+            date,
+            data: snapshot,
+            count: snapshot.length,
+        }, validators);
+    });
+
     return router;
 }
\ No newline at end of file
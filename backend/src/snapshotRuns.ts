@@ -0,0 +1,171 @@
+import { RedisClientType } from 'redis';
+import type { FetchErrorCode, SnapshotMode } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const RUN_INDEX_KEY = 'snapshot:runs';          // Sorted set: run id, scored by start time
+const RUN_KEY_PREFIX = 'snapshot:run:';         // + id → SnapshotRun JSON
+                                                // + id + ':failures' → hash: ticker → TickerFailure JSON
+
+// Older runs are dropped once there are more than this many
+const MAX_RUNS = 100;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RunTrigger = 'cron' | 'manual';
+
+export type RunStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface RunCounts {
+    processed: number;   // paying + skipped + failed
+    paying: number;
+    skipped: number;     // Fetched fine but pays no dividend
+    failed: number;
+}
+
+export interface SnapshotRun extends RunCounts {
+    id: string;
+    trigger: RunTrigger;
+    mode: SnapshotMode;
+    universe: string;
+    provider: string;
+    status: RunStatus;
+    total: number;
+    startedAt: string;           // ISO timestamp
+    finishedAt: string | null;
+    error: string | null;        // Why the run itself failed, if it did
+}
+
+export interface TickerFailure {
+    ticker: string;
+    error: FetchErrorCode;
+    message: string;
+    attempts: number;            // Main pass plus retry passes
+    at: string;                  // ISO timestamp
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const runKey = (id: string) => `${RUN_KEY_PREFIX}${id}`;
+const failuresKey = (id: string) => `${RUN_KEY_PREFIX}${id}:failures`;
+
+async function pruneRuns(redisClient: RedisClientType): Promise<void> {
+    const expired = await redisClient.zRange(RUN_INDEX_KEY, 0, -(MAX_RUNS + 1));
+    if (expired.length === 0) return;
+
+    await redisClient.multi()
+        .del(expired.flatMap(id => [runKey(id), failuresKey(id)]))
+        .zRem(RUN_INDEX_KEY, expired)
+        .exec();
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+export async function startRun(
+    redisClient: RedisClientType,
+    run: Pick<SnapshotRun, 'id' | 'trigger' | 'mode' | 'universe' | 'provider' | 'total' | 'startedAt'>
+): Promise<SnapshotRun> {
+    const record: SnapshotRun = {
+        ...run,
+        status: 'running',
+        processed: 0,
+        paying: 0,
+        skipped: 0,
+        failed: 0,
+        finishedAt: null,
+        error: null,
+    };
+
+    await redisClient.multi()
+        .set(runKey(run.id), JSON.stringify(record))
+        .zAdd(RUN_INDEX_KEY, { score: Date.parse(run.startedAt), value: run.id })
+        .exec();
+    await pruneRuns(redisClient);
+
+    return record;
+}
+
+/**
+ * Merge counts and/or a final status into a run record
+ */
+export async function updateRun(
+    redisClient: RedisClientType,
+    id: string,
+    changes: Partial<Pick<SnapshotRun, keyof RunCounts | 'status' | 'finishedAt' | 'error'>>
+): Promise<void> {
+    const run = await getRun(redisClient, id);
+    if (!run) return;
+
+    await redisClient.set(runKey(id), JSON.stringify({ ...run, ...changes }));
+}
+
+export async function finishRun(
+    redisClient: RedisClientType,
+    id: string,
+    status: Exclude<RunStatus, 'running' | 'paused'>,
+    counts: RunCounts,
+    error: string | null = null
+): Promise<void> {
+    await updateRun(redisClient, id, {
+        ...counts,
+        status,
+        error,
+        finishedAt: new Date().toISOString(),
+    });
+}
+
+export async function recordFailure(
+    redisClient: RedisClientType,
+    id: string,
+    failure: TickerFailure
+): Promise<void> {
+    await redisClient.hSet(failuresKey(id), failure.ticker, JSON.stringify(failure));
+}
+
+/**
+ * Forget a failure once a retry succeeded
+ */
+export async function clearFailure(
+    redisClient: RedisClientType,
+    id: string,
+    ticker: string
+): Promise<void> {
+    await redisClient.hDel(failuresKey(id), ticker);
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * Most recent runs first
+ */
+export async function listRuns(
+    redisClient: RedisClientType,
+    limit: number
+): Promise<SnapshotRun[]> {
+    const ids = await redisClient.zRange(RUN_INDEX_KEY, 0, limit - 1, { REV: true });
+    if (ids.length === 0) return [];
+
+    const raw = await redisClient.mGet(ids.map(runKey));
+    return raw
+        .filter((value): value is string => value !== null)
+        .map(value => JSON.parse(value) as SnapshotRun);
+}
+
+export async function getRun(
+    redisClient: RedisClientType,
+    id: string
+): Promise<SnapshotRun | null> {
+    const raw = await redisClient.get(runKey(id));
+    return raw ? (JSON.parse(raw) as SnapshotRun) : null;
+}
+
+export async function getRunFailures(
+    redisClient: RedisClientType,
+    id: string
+): Promise<TickerFailure[]> {
+    const failures = await redisClient.hVals(failuresKey(id));
+    return failures
+        .map(value => JSON.parse(value) as TickerFailure)
+        .sort((a, b) => a.ticker.localeCompare(b.ticker));
+}
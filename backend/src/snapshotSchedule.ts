@@ -0,0 +1,179 @@
+import { RedisClientType } from 'redis';
+import cron, { type ScheduledTask, type TaskContext } from 'node-cron';
+import config from './config/config';
+import { runSnapshotJob } from './snapshotJob';
+import { claimScheduledRun } from './snapshotLease';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const SCHEDULE_KEY = 'snapshot:schedule';   // SnapshotSchedule JSON; absent = config defaults
+
+// How often each instance re-reads the schedule, so a change made through
+// another replica takes effect here too
+const SCHEDULE_SYNC_INTERVAL_MS = 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SnapshotSchedule {
+    cron: string;                // Five- or six-field cron expression
+    timezone: string;            // IANA zone the expression is evaluated in
+    enabled: boolean;
+    updatedAt: string | null;    // ISO timestamp; null until changed at runtime
+}
+
+export type ScheduleChanges = Partial<Pick<SnapshotSchedule, 'cron' | 'timezone' | 'enabled'>>;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function defaultSchedule(): SnapshotSchedule {
+    return {
+        cron: config.snapshotCron,
+        timezone: config.snapshotTimezone,
+        enabled: true,
+        updatedAt: null,
+    };
+}
+
+/**
+ * Check a schedule update. Returns an error message, or null if it's valid.
+ */
+export function validateScheduleChanges(changes: Record<string, unknown>): string | null {
+    const { cron: expression, timezone, enabled } = changes;
+
+    if (expression !== undefined && (typeof expression !== 'string' || !cron.validate(expression))) {
+        return 'cron must be a valid cron expression, e.g. "0 2 * * *"';
+    }
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+        return 'timezone must be an IANA time zone, e.g. "America/New_York"';
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+        return 'enabled must be true or false';
+    }
+    return null;
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+
+export async function getSchedule(redisClient: RedisClientType): Promise<SnapshotSchedule> {
+    const raw = await redisClient.get(SCHEDULE_KEY);
+    return raw ? (JSON.parse(raw) as SnapshotSchedule) : defaultSchedule();
+}
+
+async function saveSchedule(
+    redisClient: RedisClientType,
+    changes: ScheduleChanges
+): Promise<SnapshotSchedule> {
+    // Omitted fields keep their current value
+    const defined = Object.entries(changes).filter(([, value]) => value !== undefined);
+
+    const schedule: SnapshotSchedule = {
+        ...(await getSchedule(redisClient)),
+        ...Object.fromEntries(defined),
+        updatedAt: new Date().toISOString(),
+    };
+
+    await redisClient.set(SCHEDULE_KEY, JSON.stringify(schedule));
+    return schedule;
+}
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+/**
+ * Runs the snapshot job on the schedule stored in Redis. Every replica
+ * keeps its own cron task; the first to claim a given fire time runs it.
+ * Changes made through any replica are picked up by the others within
+ * SCHEDULE_SYNC_INTERVAL_MS.
+ */
+export class SnapshotScheduler {
+    private task: ScheduledTask | null = null;
+    private applied: SnapshotSchedule | null = null;
+    private syncTimer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly redisClient: RedisClientType) { }
+
+    async start(): Promise<SnapshotSchedule> {
+        // Fail fast on a broken SNAPSHOT_CRON / SNAPSHOT_TIMEZONE
+        const invalid = validateScheduleChanges({ cron: config.snapshotCron, timezone: config.snapshotTimezone });
+        if (invalid) throw new Error(`Invalid snapshot schedule config: ${invalid}`);
+
+        const schedule = await this.sync();
+
+        this.syncTimer = setInterval(() => {
+            this.sync().catch(err => console.warn('[cron] Schedule sync failed:', (err as Error).message));
+        }, SCHEDULE_SYNC_INTERVAL_MS);
+
+        return schedule;
+    }
+
+    stop(): void {
+        if (this.syncTimer) clearInterval(this.syncTimer);
+        this.syncTimer = null;
+        this.apply(null);
+    }
+
+    getSchedule(): Promise<SnapshotSchedule> {
+        return getSchedule(this.redisClient);
+    }
+
+    async update(changes: ScheduleChanges): Promise<SnapshotSchedule> {
+        const schedule = await saveSchedule(this.redisClient, changes);
+        this.apply(schedule);
+        return schedule;
+    }
+
+    /**
+     * When this instance's task fires next, or null while disabled
+     */
+    getNextRun(): Date | null {
+        return this.task?.getNextRun() ?? null;
+    }
+
+    private async sync(): Promise<SnapshotSchedule> {
+        const schedule = await getSchedule(this.redisClient);
+        if (JSON.stringify(schedule) !== JSON.stringify(this.applied)) this.apply(schedule);
+        return schedule;
+    }
+
+    private apply(schedule: SnapshotSchedule | null): void {
+        this.task?.destroy();
+        this.task = null;
+        this.applied = schedule;
+
+        if (!schedule?.enabled) {
+            if (schedule) console.log('⏰ Scheduled snapshot job disabled');
+            return;
+        }
+
+        this.task = cron.schedule(schedule.cron, context => this.fire(context), {
+            timezone: schedule.timezone,
+        });
+        console.log(`⏰ ${config.snapshotMode} snapshot job scheduled: "${schedule.cron}" (${schedule.timezone})`);
+    }
+
+    private async fire(context: TaskContext): Promise<void> {
+        // Every instance fires for the same minute
+        const slot = `scheduled:${context.date.toISOString().slice(0, 16)}`;
+
+        try {
+            if (!(await claimScheduledRun(this.redisClient, slot))) {
+                console.log('[cron] Scheduled snapshot job claimed by another instance.');
+                return;
+            }
+
+            console.log('[cron] Triggering scheduled snapshot job...');
+            await runSnapshotJob(this.redisClient, { trigger: 'cron' });
+        } catch (err) {
+            console.error('[cron] Snapshot job failed:', err);
+        }
+    }
+}
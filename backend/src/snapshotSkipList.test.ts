@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearValidationFailures, recordValidationFailure, withoutSkipped } from './snapshotSkipList';
+import { fakeRedis } from './testing/fixtures';
+
+const NOW = new Date('2026-10-19T02:00:00.000Z');
+
+describe('validation skip list', () => {
+    it('counts repeated failures within one run once', async () => {
+        const redis = fakeRedis();
+
+        for (let attempt = 0; attempt < 4; attempt++) {
+            assert.equal(await recordValidationFailure(redis, 'NOPE', 'run-1', 'Invalid API call.', NOW), false);
+        }
+
+        assert.deepEqual(await withoutSkipped(redis, ['NOPE'], NOW), ['NOPE']);
+    });
+
+    it('skips a ticker after failing in three consecutive runs', async () => {
+        const redis = fakeRedis();
+
+        assert.equal(await recordValidationFailure(redis, 'NOPE', 'run-1', 'Invalid API call.', NOW), false);
+        assert.equal(await recordValidationFailure(redis, 'NOPE', 'run-2', 'Invalid API call.', NOW), false);
+        assert.equal(await recordValidationFailure(redis, 'NOPE', 'run-3', 'Invalid API call.', NOW), true);
+
+        assert.deepEqual(await withoutSkipped(redis, ['KO', 'NOPE'], NOW), ['KO']);
+
+        const later = new Date(NOW.getTime() + 31 * 86_400_000);
+        assert.deepEqual(await withoutSkipped(redis, ['KO', 'NOPE'], later), ['KO', 'NOPE']);
+    });
+
+    it('starts counting again after a successful fetch', async () => {
+        const redis = fakeRedis();
+
+        await recordValidationFailure(redis, 'NOPE', 'run-1', 'Invalid API call.', NOW);
+        await recordValidationFailure(redis, 'NOPE', 'run-2', 'Invalid API call.', NOW);
+        await clearValidationFailures(redis, 'NOPE');
+
+        assert.equal(await recordValidationFailure(redis, 'NOPE', 'run-3', 'Invalid API call.', NOW), false);
+    });
+});
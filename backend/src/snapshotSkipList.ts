@@ -0,0 +1,85 @@
+import { RedisClientType } from 'redis';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const SKIP_LIST_KEY = 'snapshot:skiplist';   // Hash: ticker → SkipEntry JSON
+
+// Consecutive runs a ticker must fail validation in before it's skipped,
+// and how long it stays skipped before it gets another chance
+const FAILURES_BEFORE_SKIP = 3;
+const SKIP_DAYS = 30;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SkipEntry {
+    failures: number;             // Consecutive runs with a validation failure
+    lastRunId: string;            // Run that last counted one
+    lastError: string;
+    lastFailedAt: string;         // ISO timestamp
+    skipUntil: string | null;     // Set once failures reaches FAILURES_BEFORE_SKIP
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Count a validation failure (unknown symbol, bad data) against the run.
+ * A ticker attempted again in the same run (a retry pass, a resume) still
+ * counts once. Returns true if the ticker is now on the skip list.
+ */
+export async function recordValidationFailure(
+    redisClient: RedisClientType,
+    ticker: string,
+    runId: string,
+    message: string,
+    now: Date = new Date()
+): Promise<boolean> {
+    const raw = await redisClient.hGet(SKIP_LIST_KEY, ticker);
+    const previous = raw ? (JSON.parse(raw) as SkipEntry) : null;
+
+    const failures = (previous?.failures ?? 0) + (previous?.lastRunId === runId ? 0 : 1);
+
+    const entry: SkipEntry = {
+        failures,
+        lastRunId: runId,
+        lastError: message,
+        lastFailedAt: now.toISOString(),
+        skipUntil: failures >= FAILURES_BEFORE_SKIP
+            ? new Date(now.getTime() + SKIP_DAYS * 86_400_000).toISOString()
+            : null,
+    };
+
+    await redisClient.hSet(SKIP_LIST_KEY, ticker, JSON.stringify(entry));
+    return entry.skipUntil !== null;
+}
+
+/**
+ * A successful fetch resets the ticker's failure count
+ */
+export async function clearValidationFailures(
+    redisClient: RedisClientType,
+    ticker: string
+): Promise<void> {
+    await redisClient.hDel(SKIP_LIST_KEY, ticker);
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * Drop tickers that are currently on the skip list
+ */
+export async function withoutSkipped(
+    redisClient: RedisClientType,
+    tickers: string[],
+    now: Date = new Date()
+): Promise<string[]> {
+    const entries = await redisClient.hGetAll(SKIP_LIST_KEY);
+
+    return tickers.filter(ticker => {
+        const raw = entries[ticker];
+        if (!raw) return true;
+
+        const { skipUntil } = JSON.parse(raw) as SkipEntry;
+        return !skipUntil || Date.parse(skipUntil) <= now.getTime();
+    });
+}
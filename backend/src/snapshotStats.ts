@@ -0,0 +1,152 @@
+import config from './config/config';
+import type { SnapshotEntry } from './snapshotJob';
+import { getSectorBuckets } from './sectors';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Keeps ?bins= requests (computed on the fly) cheap
+const MAX_BIN_EDGES = 50;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface HistogramBin {
+    min: number | null;       // Inclusive; null = no lower bound
+    max: number | null;       // Exclusive; null = no upper bound
+    count: number;
+}
+
+// Yield figures, in percent. Null when there are no stocks to describe.
+export interface YieldStats {
+    count: number;
+    mean: number | null;
+    median: number | null;
+    min: number | null;
+    max: number | null;
+    p10: number | null;
+    p25: number | null;
+    p75: number | null;
+    p90: number | null;
+    histogram: HistogramBin[];
+}
+
+export interface SectorYieldStats extends YieldStats {
+    sector: string;
+}
+
+export interface SnapshotStats {
+    universe: string;
+    generatedAt: string | null;   // ISO timestamp of the snapshot these describe; null if it has no metadata
+    binEdges: number[];
+    overall: YieldStats;
+    sectors: SectorYieldStats[];  // Sector buckets with any stocks, in display order
+}
+
+// ─── Bin edges ────────────────────────────────────────────────────────────────
+
+/**
+ * Read comma-separated, strictly increasing histogram edges.
+ * Returns an error message instead when the list is malformed.
+ */
+export function parseBinEdges(value: string): number[] | string {
+    const edges = value.split(',').map(edge => edge.trim()).filter(edge => edge !== '').map(Number);
+
+    if (edges.length === 0 || edges.length > MAX_BIN_EDGES) {
+        return `bins must list between 1 and ${MAX_BIN_EDGES} edges`;
+    }
+    if (edges.some(edge => !Number.isFinite(edge))) return 'bins must be numbers';
+    if (edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) return 'bins must be strictly increasing';
+
+    return edges;
+}
+
+/**
+ * Edges from SNAPSHOT_STATS_BINS, used for the cached stats
+ */
+export function getDefaultBinEdges(): number[] {
+    const edges = parseBinEdges(config.statsYieldBins);
+    if (typeof edges === 'string') throw new Error(`Invalid SNAPSHOT_STATS_BINS: ${edges}`);
+    return edges;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Linear interpolation between the closest ranks
+ */
+function percentile(sorted: number[], p: number): number {
+    const rank = (sorted.length - 1) * p;
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+/**
+ * One bin below the first edge, one between each pair, one from the last edge up
+ */
+function histogram(sorted: number[], edges: number[]): HistogramBin[] {
+    const bins: HistogramBin[] = [null, ...edges].map((min, i) => ({ min, max: edges[i] ?? null, count: 0 }));
+
+    for (const value of sorted) {
+        const index = edges.findIndex(edge => value < edge);
+        bins[index === -1 ? edges.length : index].count++;
+    }
+    return bins;
+}
+
+function describeYields(yields: number[], edges: number[]): YieldStats {
+    const sorted = [...yields].sort((a, b) => a - b);
+
+    if (sorted.length === 0) {
+        return {
+            count: 0, mean: null, median: null, min: null, max: null,
+            p10: null, p25: null, p75: null, p90: null,
+            histogram: histogram(sorted, edges),
+        };
+    }
+
+    return {
+        count: sorted.length,
+        mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        median: percentile(sorted, 0.5),
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        p10: percentile(sorted, 0.1),
+        p25: percentile(sorted, 0.25),
+        p75: percentile(sorted, 0.75),
+        p90: percentile(sorted, 0.9),
+        histogram: histogram(sorted, edges),
+    };
+}
+
+// ─── Stats ────────────────────────────────────────────────────────────────────
+
+/**
+ * Yield distribution per sector bucket and across the whole snapshot
+ */
+export function computeSnapshotStats(
+    snapshot: SnapshotEntry[],
+    snapshotInfo: { universe: string; generatedAt: string | null },
+    edges: number[] = getDefaultBinEdges()
+): SnapshotStats {
+    const bySector = new Map<string, number[]>();
+    for (const entry of snapshot) {
+        const yields = bySector.get(entry.sector) ?? [];
+        yields.push(entry.yield);
+        bySector.set(entry.sector, yields);
+    }
+
+    // Display order; any sector no longer in the taxonomy goes last
+    const order = getSectorBuckets().map(bucket => bucket.name);
+    const rank = (sector: string) => order.includes(sector) ? order.indexOf(sector) : order.length;
+
+    const sectors = [...bySector.entries()]
+        .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+        .map(([sector, yields]) => ({ sector, ...describeYields(yields, edges) }));
+
+    return {
+        ...snapshotInfo,
+        binEdges: edges,
+        overall: describeYields(snapshot.map(entry => entry.yield), edges),
+        sectors,
+    };
+}
@@ -0,0 +1,71 @@
+import type { RedisClientType } from 'redis';
+import type { SnapshotEntry } from '../snapshotJob';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// The commands the in-memory client below implements. Code under test that
+// calls anything else fails loudly instead of getting undefined.
+export type FakeRedis = Pick<RedisClientType, 'get' | 'hGet' | 'hGetAll' | 'hmGet' | 'hSet' | 'hDel' | 'zRange'>;
+
+export interface FakeRedisData {
+    strings?: Record<string, string>;
+    hashes?: Record<string, Record<string, string>>;
+}
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/**
+ * A paying Manufacturing stock with every optional figure unknown
+ */
+export function snapshotEntry(ticker: string, values: Partial<SnapshotEntry> = {}): SnapshotEntry {
+    return {
+        ticker,
+        name: ticker,
+        sector: 'Manufacturing',
+        rawSector: null,
+        industry: 'Industrial Machinery',
+        yield: 3,
+        dividendPerShare: null,
+        payoutRatio: null,
+        exDividendDate: null,
+        dividendDate: null,
+        marketCap: null,
+        eps: null,
+        growth: null,
+        ...values,
+    };
+}
+
+/**
+ * Redis client over plain maps. Writes land in `data`, so tests can
+ * assert on what was stored.
+ */
+export function fakeRedis(data: FakeRedisData = {}): RedisClientType {
+    const strings = data.strings ??= {};
+    const hashes = data.hashes ??= {};
+
+    const client: FakeRedis = {
+        get: async key => strings[key.toString()] ?? null,
+        hGet: async (key, field) => hashes[key.toString()]?.[field.toString()] ?? null,
+        hGetAll: async key => ({ ...hashes[key.toString()] }),
+        hmGet: async (key, fields) =>
+            [fields].flat().map(field => hashes[key.toString()]?.[field.toString()] ?? null),
+        // Single field/value form only
+        hSet: async (key: string | Buffer, field: unknown, value?: unknown) => {
+            const hash = hashes[key.toString()] ??= {};
+            const added = String(field) in hash ? 0 : 1;
+            hash[String(field)] = String(value);
+            return added;
+        },
+        hDel: async (key, fields) => {
+            const hash = hashes[key.toString()] ?? {};
+            const present = [fields].flat().map(String).filter(field => field in hash);
+            present.forEach(field => delete hash[field]);
+            return present.length;
+        },
+        zRange: async () => [],
+    };
+
+    // Only the commands above exist; the narrower type checks their signatures
+    return client as RedisClientType;
+}
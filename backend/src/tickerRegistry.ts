@@ -0,0 +1,117 @@
+import { RedisClientType } from 'redis';
+import { fetchSecTickerRecords } from './sec';
+import type { MarketDataProvider, TickerRecord } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const REGISTRY_KEY = 'tickers:registry'; // Hash: ticker → TickerRecord JSON
+const TICKERS_KEY  = 'tickers';          // Plain ticker array, kept for existing readers
+
+export const TICKER_EXPIRY_TIME = 1209600; // 2 weeks in seconds
+
+// Bumped on every refresh in this process, so in-memory copies know to reload
+let generation = 0;
+
+export function getRegistryGeneration(): number {
+    return generation;
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuilds the registry from the provider's own ticker list when it has one,
+ * otherwise from the SEC exchange feed. Returns the records in feed order.
+ */
+export async function refreshTickerRegistry(
+    redisClient: RedisClientType,
+    provider: MarketDataProvider
+): Promise<TickerRecord[]> {
+    const fetched = provider.fetchTickerRecords
+        ? await provider.fetchTickerRecords()
+        : await fetchSecTickerRecords();
+
+    // A company can list several share classes; a symbol only ever maps to one
+    const records = new Map<string, TickerRecord>();
+    for (const record of fetched) {
+        if (!records.has(record.ticker)) records.set(record.ticker, record);
+    }
+
+    const entries = Object.fromEntries(
+        [...records.entries()].map(([ticker, record]) => [ticker, JSON.stringify(record)])
+    );
+
+    const multi = redisClient.multi().del(REGISTRY_KEY);
+    if (records.size > 0) {
+        multi
+            .hSet(REGISTRY_KEY, entries)
+            .expire(REGISTRY_KEY, TICKER_EXPIRY_TIME);
+    }
+    await multi
+        .set(TICKERS_KEY, JSON.stringify([...records.keys()]), { EX: TICKER_EXPIRY_TIME })
+        .exec();
+
+    generation++;
+
+    console.log(`[registry] Stored ${records.size} tickers`);
+    return [...records.values()];
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+export async function getTickerRecord(
+    redisClient: RedisClientType,
+    ticker: string
+): Promise<TickerRecord | null> {
+    const raw = await redisClient.hGet(REGISTRY_KEY, ticker.toUpperCase());
+    return raw ? (JSON.parse(raw) as TickerRecord) : null;
+}
+
+/**
+ * Looks up several tickers at once; unknown symbols are left out of the map
+ */
+export async function getTickerRecords(
+    redisClient: RedisClientType,
+    tickers: string[]
+): Promise<Map<string, TickerRecord>> {
+    const records = new Map<string, TickerRecord>();
+    if (tickers.length === 0) return records;
+
+    const raw = await redisClient.hmGet(REGISTRY_KEY, tickers.map(t => t.toUpperCase()));
+    raw.forEach(value => {
+        if (value) {
+            const record = JSON.parse(value) as TickerRecord;
+            records.set(record.ticker, record);
+        }
+    });
+
+    return records;
+}
+
+/**
+ * Every registered symbol, in feed order
+ */
+export async function getRegistryTickers(redisClient: RedisClientType): Promise<string[]> {
+    const raw = await redisClient.get(TICKERS_KEY);
+    if (!raw) throw new Error('Tickers not in cache. Run fetcher("tickers", ...) first.');
+    return JSON.parse(raw) as string[];
+}
+
+export async function getAllTickerRecords(
+    redisClient: RedisClientType
+): Promise<TickerRecord[]> {
+    const raw = await redisClient.hGetAll(REGISTRY_KEY);
+    return Object.values(raw).map(value => JSON.parse(value) as TickerRecord);
+}
+
+/**
+ * Builds the registry on first use (or after it expired)
+ */
+export async function ensureTickerRegistry(
+    redisClient: RedisClientType,
+    provider: MarketDataProvider
+): Promise<void> {
+    if (!(await redisClient.exists(REGISTRY_KEY))) {
+        await refreshTickerRegistry(redisClient, provider);
+    }
+}
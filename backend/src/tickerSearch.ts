@@ -0,0 +1,143 @@
+import { RedisClientType } from 'redis';
+import { getAllTickerRecords, getRegistryGeneration } from './tickerRegistry';
+import type { StockData, TickerRecord, TickerSearchResult } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// The index is reloaded when this process refreshes the registry, and at
+// least this often so refreshes by other instances (or expiry) show up
+const INDEX_MAX_AGE_MS = 10 * 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// Lower rank sorts first
+enum MatchRank {
+    ExactSymbol = 0,
+    SymbolPrefix = 1,
+    NamePrefix = 2,
+    NameWord = 3,
+}
+
+// A registry record with its name pre-normalised for matching
+interface IndexedRecord {
+    record: TickerRecord;
+    name: string;
+    nameWords: string[];
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+/**
+ * Lowercase and turn punctuation into spaces so "Coca-Cola" matches "coca cola"
+ */
+function normalise(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function indexRecord(record: TickerRecord): IndexedRecord {
+    const name = normalise(record.name);
+    return { record, name, nameWords: name.split(' ') };
+}
+
+function rankRecord({ record, name, nameWords }: IndexedRecord, symbolQuery: string, nameQuery: string): MatchRank | null {
+    if (record.ticker === symbolQuery) return MatchRank.ExactSymbol;
+    if (record.ticker.startsWith(symbolQuery)) return MatchRank.SymbolPrefix;
+
+    if (!nameQuery) return null;
+
+    if (name.startsWith(nameQuery)) return MatchRank.NamePrefix;
+
+    // Every query word has to start some word of the name
+    const queryWords = nameQuery.split(' ');
+    const allWordsMatch = queryWords.every(queryWord =>
+        nameWords.some(word => word.startsWith(queryWord))
+    );
+
+    return allWordsMatch ? MatchRank.NameWord : null;
+}
+
+/**
+ * Rank registry records against a free-text query: exact symbol, then symbol
+ * prefix, then company-name prefix, then word matches inside the name.
+ */
+function rankIndexedRecords(
+    records: IndexedRecord[],
+    query: string,
+    limit: number
+): TickerRecord[] {
+    const symbolQuery = query.toUpperCase().trim();
+    const nameQuery = normalise(query);
+
+    if (!symbolQuery) return [];
+
+    return records
+        .map(indexed => ({ record: indexed.record, rank: rankRecord(indexed, symbolQuery, nameQuery) }))
+        .filter((match): match is { record: TickerRecord; rank: MatchRank } => match.rank !== null)
+        .sort((a, b) =>
+            a.rank - b.rank ||
+            a.record.ticker.length - b.record.ticker.length ||
+            a.record.ticker.localeCompare(b.record.ticker)
+        )
+        .slice(0, limit)
+        .map(match => match.record);
+}
+
+// ─── Index ────────────────────────────────────────────────────────────────────
+
+let index: { records: IndexedRecord[]; generation: number; loadedAt: number } | null = null;
+let loading: Promise<IndexedRecord[]> | null = null;
+
+/**
+ * The registry, normalised once and kept in memory between searches
+ */
+async function getSearchIndex(redisClient: RedisClientType): Promise<IndexedRecord[]> {
+    const generation = getRegistryGeneration();
+    if (index && index.generation === generation && Date.now() - index.loadedAt < INDEX_MAX_AGE_MS) {
+        return index.records;
+    }
+
+    // Concurrent keystrokes share one reload
+    loading ??= getAllTickerRecords(redisClient)
+        .then(records => {
+            const indexed = records.map(indexRecord);
+            index = { records: indexed, generation, loadedAt: Date.now() };
+            return indexed;
+        })
+        .finally(() => { loading = null; });
+
+    return loading;
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+/**
+ * Search the registry and attach sector/yield for anything already cached
+ */
+export async function searchTickers(
+    redisClient: RedisClientType,
+    query: string,
+    limit: number
+): Promise<TickerSearchResult[]> {
+    const records = await getSearchIndex(redisClient);
+    const matches = rankIndexedRecords(records, query, limit);
+
+    if (matches.length === 0) return [];
+
+    // Stock fundamentals are cached under the bare ticker by fetcher()
+    const cached = await redisClient.mGet(matches.map(record => record.ticker));
+
+    return matches.map((record, i) => {
+        const stock = cached[i] ? (JSON.parse(cached[i]!) as StockData) : null;
+
+        return {
+            ticker: record.ticker,
+            name: record.name,
+            exchange: record.exchange,
+            sector: stock?.sector ?? null,
+            yield: stock?.yield ?? null,
+        };
+    });
+}
@@ -2,18 +2,109 @@
 export interface StockData {
     ticker: string;
     name: string;
-    sector: string;
+    sector: string;                 // Taxonomy bucket, see GET /api/sectors
+    rawSector: string | null;       // As reported by the vendor
+    industry: string;
     yield: number;
+    dividendPerShare: number | null;
+    payoutRatio: number | null;     // Percentage, like yield
+    exDividendDate: string | null;  // YYYY-MM-DD
+    dividendDate: string | null;    // YYYY-MM-DD (payment date)
+    marketCap: number | null;       // USD
+    eps: number | null;
+    growth: DividendGrowth | null;  // Only for dividend payers with a known history
+}
+
+// Sector taxonomy (config/sectors.json)
+export interface SectorBucket {
+    name: string;
+    color: string;
+    order: number;
+    rawSectors: string[];           // Vendor sectors, matched case-insensitively
+}
+
+export interface SectorTaxonomy {
+    buckets: SectorBucket[];
+    fallback: SectorBucket;         // For sectors no bucket claims
+}
+
+// Snapshot universes (config/universes.json): which tickers a snapshot covers.
+// A ticker must pass every filter a universe sets.
+export interface UniverseDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    exchanges?: string[];           // Registry exchanges to keep, matched case-insensitively
+    excludePatterns?: string[];     // Symbol regexes to drop, e.g. "-WS$" for warrants
+    tickers?: string[];             // Custom list: only these symbols
+    list?: string;                  // Only symbols in this uploaded list, see PUT /api/universes/lists/:name
+}
+
+export interface UniverseConfig {
+    universes: UniverseDefinition[];
+}
+
+// Dividend growth analytics
+export type DividendClassification = 'king' | 'aristocrat' | null;
+
+export interface DividendGrowth {
+    cagr1y: number | null;          // Annualised percentages over complete calendar years
+    cagr3y: number | null;
+    cagr5y: number | null;
+    cagr10y: number | null;
+    consecutiveRaises: number;      // Years in a row the annual total went up
+    consecutiveCuts: number;        // Years in a row the annual total went down
+    classification: DividendClassification;
 }
 
 export interface AlphaVantageResponse {
     Symbol?: string;
+    Name?: string;
+    Exchange?: string;
     Sector?: string;
+    Industry?: string;
     DividendYield?: string;
+    DividendPerShare?: string;
+    PayoutRatio?: string;
+    ExDividendDate?: string;
+    DividendDate?: string;
+    MarketCapitalization?: string;
+    EPS?: string;
     Note?: string; // API rate limit message
+    Information?: string; // Quota / throttle message
     'Error Message'?: string;
 }
 
+export interface AlphaVantageDividendRecord {
+    ex_dividend_date?: string;
+    declaration_date?: string;
+    record_date?: string;
+    payment_date?: string;
+    amount?: string;
+}
+
+export interface AlphaVantageDividendsResponse {
+    symbol?: string;
+    data?: AlphaVantageDividendRecord[];
+    Note?: string; // API rate limit message
+    Information?: string; // Premium-endpoint / quota message
+    'Error Message'?: string;
+}
+
+// Dividend history
+export interface DividendPayment {
+    exDate: string;                 // YYYY-MM-DD
+    payDate: string | null;
+    recordDate: string | null;
+    declarationDate: string | null;
+    amount: number;                 // Per share, in the listing currency
+}
+
+export interface DividendHistory {
+    ticker: string;
+    payments: DividendPayment[];    // Oldest first
+}
+
 export interface SECTickerResponse {
     [key: string]: {
         cik_str: number;
@@ -22,6 +113,64 @@ export interface SECTickerResponse {
     };
 }
 
+export interface SECTickerExchangeResponse {
+    fields: string[]; // ["cik", "name", "ticker", "exchange"]
+    data: (string | number | null)[][];
+}
+
+// One entry of the ticker registry
+export interface TickerRecord {
+    ticker: string;
+    cik: number;
+    name: string;
+    exchange: string | null;
+}
+
+// Dividend calendar
+export type CalendarEventType = 'ex-dividend' | 'payment';
+
+export interface CalendarEvent {
+    ticker: string;
+    name: string;
+    type: CalendarEventType;
+    date: string;                   // YYYY-MM-DD
+    amount: number | null;          // Per share, when known
+}
+
+// Ticker search
+export interface TickerSearchResult {
+    ticker: string;
+    name: string;
+    exchange: string | null;
+    sector: string | null; // Only when fundamentals are cached
+    yield: number | null;  // Only when fundamentals are cached
+}
+
+// Error codes carried in fetcher error JSON
+export type FetchErrorCode = 'RATE_LIMIT' | 'VALIDATION_ERROR' | 'NETWORK_ERROR' | 'UNKNOWN_ERROR';
+
+// Snapshot job: refetch every ticker, or only those past their max age
+export type SnapshotMode = 'full' | 'incremental';
+
+// Upstream calls made for a user request go ahead of background (snapshot) work
+export type RequestPriority = 'interactive' | 'background';
+
+// Market data providers
+export type MarketDataProviderName = 'alphavantage' | 'fixture';
+
+export interface MarketDataProvider {
+    readonly name: MarketDataProviderName;
+
+    /** Fetch normalised fundamentals for a single ticker */
+    fetchFundamentals(ticker: string): Promise<StockData>;
+
+    /** Fetch every recorded dividend payment for a single ticker */
+    fetchDividendHistory(ticker: string): Promise<DividendHistory>;
+
+    /** Optional local ticker universe; when absent the SEC feed is used */
+    fetchTickerRecords?(): Promise<TickerRecord[]>;
+}
+
 // Custom errors
 export class RateLimitError extends Error {
     constructor(message: string) {
@@ -31,8 +180,8 @@ export class RateLimitError extends Error {
 }
 
 export class NetworkError extends Error {
-    constructor(message: string) {
-        super(message);
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
         this.name = 'NetworkError';
     }
 }
@@ -0,0 +1,143 @@
+import express, { Request, Response, Router } from 'express';
+import { RedisClientType } from 'redis';
+import config from './config/config';
+import {
+    deleteTickerList,
+    getTickerList,
+    getUniverse,
+    getUniverses,
+    isListName,
+    parseTickerList,
+    resolveUniverse,
+    saveTickerList,
+} from './universes';
+
+// Uploaded ticker files are plain text; a few thousand symbols at most
+const MAX_LIST_SIZE = '1mb';
+
+export function createUniverseRoutes(redisClient: RedisClientType): Router {
+    const router = express.Router();
+
+    /**
+     * GET /api/universes
+     * Every universe a snapshot can be built for. `default` is the one
+     * scheduled runs and GET /api/snapshot use.
+     */
+    router.get('/', (req: Request, res: Response) => {
+        const universes = getUniverses();
+
+        res.json({
+            success: true,
+            data: universes.map(universe => ({ ...universe, default: universe.id === config.snapshotUniverse })),
+            count: universes.length,
+        });
+    });
+
+    /**
+     * GET /api/universes/lists/:name
+     * An uploaded ticker list.
+     */
+    router.get('/lists/:name', async (req: Request, res: Response) => {
+        const name = <string>req.params.name;
+        const tickers = await getTickerList(redisClient, name);
+
+        if (!tickers) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No ticker list named ${name}`,
+            });
+        }
+
+        return res.json({
+            success: true,
+            data: tickers,
+            count: tickers.length,
+        });
+    });
+
+    /**
+     * PUT /api/universes/lists/:name
+     * Upload (or replace) a ticker list for universes that reference it.
+     * Body: a text/plain file, one symbol per line or comma-separated,
+     * or JSON { "tickers": ["AAPL", ...] }.
+     */
+    router.put('/lists/:name', express.text({ limit: MAX_LIST_SIZE }), async (req: Request, res: Response) => {
+        const name = <string>req.params.name;
+        if (!isListName(name)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'name may only contain lowercase letters, digits, "-" and "_"',
+            });
+        }
+
+        let tickers: string[];
+        if (typeof req.body === 'string') {
+            tickers = parseTickerList(req.body);
+        } else if (Array.isArray(req.body?.tickers) && req.body.tickers.every((t: unknown) => typeof t === 'string')) {
+            tickers = parseTickerList((req.body.tickers as string[]).join('\n'));
+        } else {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'Send a text/plain ticker file or JSON { "tickers": [...] }',
+            });
+        }
+
+        if (tickers.length === 0) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'The ticker list is empty',
+            });
+        }
+
+        await saveTickerList(redisClient, name, tickers);
+
+        return res.json({
+            success: true,
+            data: tickers,
+            count: tickers.length,
+        });
+    });
+
+    /**
+     * DELETE /api/universes/lists/:name
+     * Universes using the list resolve to no tickers until it is uploaded again.
+     */
+    router.delete('/lists/:name', async (req: Request, res: Response) => {
+        const name = <string>req.params.name;
+
+        if (!(await deleteTickerList(redisClient, name))) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No ticker list named ${name}`,
+            });
+        }
+
+        return res.json({ success: true, message: `Ticker list ${name} deleted.` });
+    });
+
+    /**
+     * GET /api/universes/:id
+     * A universe's definition and the tickers it currently resolves to.
+     */
+    router.get('/:id', async (req: Request, res: Response) => {
+        const id = <string>req.params.id;
+        const universe = getUniverse(id);
+
+        if (!universe) {
+            return res.status(404).json({
+                error: 'NOT_FOUND',
+                message: `No universe with id ${id}`,
+            });
+        }
+
+        const tickers = await resolveUniverse(redisClient, universe);
+
+        return res.json({
+            success: true,
+            data: { ...universe, default: universe.id === config.snapshotUniverse, tickers },
+            count: tickers.length,
+        });
+    });
+
+    return router;
+}
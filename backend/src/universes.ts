@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import { RedisClientType } from 'redis';
+import config from './config/config';
+import defaultUniverses from './config/universes.json';
+import { getRegistryTickers, getTickerRecords } from './tickerRegistry';
+import type { UniverseConfig, UniverseDefinition } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys
+const LIST_KEY_PREFIX = 'universe:list:';   // + name → uploaded ticker array JSON
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+let universes: Map<string, UniverseDefinition> | null = null;
+
+/**
+ * Check the file's shape: unique ids, and patterns that compile
+ */
+function validateUniverses(value: UniverseConfig, source: string): Map<string, UniverseDefinition> {
+    const byId = new Map<string, UniverseDefinition>();
+
+    for (const universe of value.universes ?? []) {
+        if (!universe || typeof universe.id !== 'string' || !ID_PATTERN.test(universe.id) ||
+            typeof universe.name !== 'string') {
+            throw new Error(`Invalid universes in ${source}: every universe needs a lowercase id and a name`);
+        }
+        if (byId.has(universe.id)) {
+            throw new Error(`Invalid universes in ${source}: "${universe.id}" is defined twice`);
+        }
+        if (universe.list !== undefined && !ID_PATTERN.test(universe.list)) {
+            throw new Error(`Invalid universes in ${source}: list "${universe.list}" of ${universe.id} is not a valid name`);
+        }
+
+        for (const pattern of universe.excludePatterns ?? []) {
+            try {
+                new RegExp(pattern);
+            } catch {
+                throw new Error(`Invalid universes in ${source}: bad pattern "${pattern}" in ${universe.id}`);
+            }
+        }
+
+        byId.set(universe.id, universe);
+    }
+
+    if (!byId.has(config.snapshotUniverse)) {
+        throw new Error(`SNAPSHOT_UNIVERSE "${config.snapshotUniverse}" is not defined in ${source}`);
+    }
+
+    return byId;
+}
+
+function loadUniverses(): Map<string, UniverseDefinition> {
+    if (!universes) {
+        const source = config.universeFile || 'config/universes.json';
+        const raw = config.universeFile
+            ? JSON.parse(readFileSync(config.universeFile, 'utf8')) as UniverseConfig
+            : defaultUniverses as UniverseConfig;
+
+        universes = validateUniverses(raw, source);
+    }
+    return universes;
+}
+
+export function getUniverses(): UniverseDefinition[] {
+    return [...loadUniverses().values()];
+}
+
+export function getUniverse(id: string): UniverseDefinition | null {
+    return loadUniverses().get(id) ?? null;
+}
+
+export function isListName(name: string): boolean {
+    return ID_PATTERN.test(name);
+}
+
+// ─── Uploaded lists ───────────────────────────────────────────────────────────
+
+/**
+ * Read symbols from an uploaded file: one per line, or separated by
+ * commas or whitespace. Blank lines and # comments are ignored.
+ */
+export function parseTickerList(text: string): string[] {
+    const tickers = text
+        .split('\n')
+        .map(line => line.replace(/#.*/, ''))
+        .flatMap(line => line.split(/[\s,]+/))
+        .map(ticker => ticker.trim().toUpperCase())
+        .filter(ticker => ticker !== '');
+
+    return [...new Set(tickers)];
+}
+
+export async function saveTickerList(
+    redisClient: RedisClientType,
+    name: string,
+    tickers: string[]
+): Promise<void> {
+    await redisClient.set(`${LIST_KEY_PREFIX}${name}`, JSON.stringify(tickers));
+}
+
+export async function getTickerList(
+    redisClient: RedisClientType,
+    name: string
+): Promise<string[] | null> {
+    const raw = await redisClient.get(`${LIST_KEY_PREFIX}${name}`);
+    return raw ? (JSON.parse(raw) as string[]) : null;
+}
+
+export async function deleteTickerList(
+    redisClient: RedisClientType,
+    name: string
+): Promise<boolean> {
+    return (await redisClient.del(`${LIST_KEY_PREFIX}${name}`)) > 0;
+}
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+/**
+ * The universe's tickers, in registry order. A universe whose uploaded
+ * list is missing resolves to nothing rather than to every ticker.
+ */
+export async function resolveUniverse(
+    redisClient: RedisClientType,
+    universe: UniverseDefinition
+): Promise<string[]> {
+    const tickers = await getRegistryTickers(redisClient);
+
+    // Exchanges come from the registry; only look them up when filtering on them
+    const records = universe.exchanges ? await getTickerRecords(redisClient, tickers) : null;
+
+    const exchanges = universe.exchanges && new Set(universe.exchanges.map(e => e.toLowerCase()));
+    const excluded = (universe.excludePatterns ?? []).map(pattern => new RegExp(pattern));
+    const custom = universe.tickers && new Set(universe.tickers.map(t => t.toUpperCase()));
+
+    let uploaded: Set<string> | undefined;
+    if (universe.list) {
+        const list = await getTickerList(redisClient, universe.list);
+        if (!list) console.warn(`[universe] List "${universe.list}" for ${universe.id} has not been uploaded.`);
+        uploaded = new Set(list ?? []);
+    }
+
+    return tickers.filter(ticker =>
+        (!exchanges || exchanges.has((records?.get(ticker)?.exchange ?? '').toLowerCase())) &&
+        !excluded.some(pattern => pattern.test(ticker)) &&
+        (!custom || custom.has(ticker)) &&
+        (!uploaded || uploaded.has(ticker))
+    );
+}
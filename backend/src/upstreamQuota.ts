@@ -0,0 +1,231 @@
+import { RedisClientType } from 'redis';
+import config from './config/config';
+import { RateLimitError, type RequestPriority } from './types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Redis keys: + :minute:<epoch minute> / :day:<YYYY-MM-DD> → calls made in that window
+const QUOTA_KEY_PREFIX = 'quota:';
+
+// Share of each budget that background work may not touch, so an interactive
+// lookup still goes through while the snapshot job is saturating the minute
+const INTERACTIVE_RESERVE = 0.1;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface QuotaLimits {
+    perMinute: number;
+    perDay: number;          // 0 = no daily cap
+}
+
+export interface QuotaWindow {
+    limit: number;
+    used: number;
+    remaining: number;
+    resetsAt: string;        // ISO timestamp
+}
+
+export interface QuotaStatus {
+    vendor: string;
+    perMinute: QuotaWindow;
+    perDay: QuotaWindow | null;
+    queued: Record<RequestPriority, number>;
+}
+
+interface Waiter {
+    priority: RequestPriority;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+type Reservation = 'ok' | 'minute' | 'day';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * The part of a budget a priority may use
+ */
+function limitFor(limit: number, priority: RequestPriority): number {
+    if (priority === 'interactive' || limit <= 1) return limit;
+    return limit - Math.max(1, Math.floor(limit * INTERACTIVE_RESERVE));
+}
+
+function windowBounds(now: Date) {
+    const minute = Math.floor(now.getTime() / 60_000);
+    const day = now.toISOString().slice(0, 10);
+
+    return {
+        minute,
+        day,
+        minuteResetsAt: new Date((minute + 1) * 60_000),
+        dayResetsAt: new Date(Date.parse(day) + 86_400_000),
+    };
+}
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+/**
+ * Shared budget for one upstream vendor. Counters live in Redis so every
+ * process draws from the same per-minute and per-day allowance; callers
+ * queue here by priority until their call fits.
+ */
+export class UpstreamQuota {
+    private readonly queue: Waiter[] = [];
+    private pumping = false;
+    private wake: (() => void) | null = null;
+
+    constructor(
+        private readonly redisClient: RedisClientType,
+        readonly vendor: string,
+        readonly limits: QuotaLimits
+    ) { }
+
+    /**
+     * Resolves once a call may be made. Interactive callers go ahead of all
+     * queued background work. Rejects with RateLimitError when the daily
+     * budget is spent, rather than queueing until tomorrow.
+     */
+    acquire(priority: RequestPriority): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { priority, resolve, reject };
+
+            const index = priority === 'interactive'
+                ? this.queue.findIndex(w => w.priority !== 'interactive')
+                : -1;
+            if (index === -1) this.queue.push(waiter);
+            else this.queue.splice(index, 0, waiter);
+
+            // Re-check now: an interactive caller may fit where background didn't
+            this.wake?.();
+
+            if (!this.pumping) {
+                this.pump().catch(err => console.error(`[quota] ${this.vendor} scheduler failed:`, err));
+            }
+        });
+    }
+
+    async getStatus(now: Date = new Date()): Promise<QuotaStatus> {
+        const bounds = windowBounds(now);
+        const [minuteRaw, dayRaw] = await Promise.all([
+            this.redisClient.get(this.minuteKey(bounds.minute)),
+            this.redisClient.get(this.dayKey(bounds.day)),
+        ]);
+
+        const window = (limit: number, used: number, resetsAt: Date): QuotaWindow => ({
+            limit,
+            used,
+            remaining: Math.max(0, limit - used),
+            resetsAt: resetsAt.toISOString(),
+        });
+
+        return {
+            vendor: this.vendor,
+            perMinute: window(this.limits.perMinute, Number(minuteRaw ?? 0), bounds.minuteResetsAt),
+            perDay: this.limits.perDay > 0
+                ? window(this.limits.perDay, Number(dayRaw ?? 0), bounds.dayResetsAt)
+                : null,
+            queued: {
+                interactive: this.queue.filter(w => w.priority === 'interactive').length,
+                background: this.queue.filter(w => w.priority === 'background').length,
+            },
+        };
+    }
+
+    private minuteKey(minute: number) {
+        return `${QUOTA_KEY_PREFIX}${this.vendor}:minute:${minute}`;
+    }
+
+    private dayKey(day: string) {
+        return `${QUOTA_KEY_PREFIX}${this.vendor}:day:${day}`;
+    }
+
+    /**
+     * Count a call against both windows, handing it back if either is full
+     */
+    private async tryReserve(priority: RequestPriority): Promise<Reservation> {
+        const bounds = windowBounds(new Date());
+        const minuteKey = this.minuteKey(bounds.minute);
+        const dayKey = this.dayKey(bounds.day);
+
+        const [minuteUsed, , dayUsed] = (await this.redisClient.multi()
+            .incr(minuteKey)
+            .expire(minuteKey, 2 * 60)
+            .incr(dayKey)
+            .expire(dayKey, 2 * 86_400)
+            .exec()).map(Number);
+
+        const overDay = this.limits.perDay > 0 && dayUsed > limitFor(this.limits.perDay, priority);
+        const overMinute = minuteUsed > limitFor(this.limits.perMinute, priority);
+
+        if (!overDay && !overMinute) return 'ok';
+
+        await this.redisClient.multi().decr(minuteKey).decr(dayKey).exec();
+        return overDay ? 'day' : 'minute';
+    }
+
+    private async pump(): Promise<void> {
+        this.pumping = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const head = this.queue[0];
+
+                let reservation: Reservation;
+                try {
+                    reservation = await this.tryReserve(head.priority);
+                } catch (error) {
+                    this.queue.splice(this.queue.indexOf(head), 1);
+                    head.reject(error as Error);
+                    continue;
+                }
+
+                if (reservation === 'minute') {
+                    await this.sleepUntilWoken(windowBounds(new Date()).minuteResetsAt.getTime() - Date.now());
+                    continue;
+                }
+
+                // An interactive caller may have jumped ahead while we were reserving
+                this.queue.splice(this.queue.indexOf(head), 1);
+
+                if (reservation === 'day') {
+                    head.reject(new RateLimitError(`Daily ${this.vendor} quota exhausted`));
+                } else {
+                    head.resolve();
+                }
+            }
+        } finally {
+            this.pumping = false;
+        }
+    }
+
+    private sleepUntilWoken(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.wake?.(), ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                this.wake = null;
+                resolve();
+            };
+        });
+    }
+}
+
+// ─── Shared instance ──────────────────────────────────────────────────────────
+
+let alphaVantageQuota: UpstreamQuota | null = null;
+
+/**
+ * Called once Redis is connected. Until then (e.g. in scripts) calls
+ * go out unscheduled.
+ */
+export function initUpstreamQuota(redisClient: RedisClientType): UpstreamQuota {
+    alphaVantageQuota = new UpstreamQuota(redisClient, 'alphavantage', {
+        perMinute: config.upstreamRequestsPerMinute,
+        perDay: config.upstreamRequestsPerDay,
+    });
+    return alphaVantageQuota;
+}
+
+export function getUpstreamQuota(): UpstreamQuota | null {
+    return alphaVantageQuota;
+}
@@ -4,18 +4,37 @@ import "./App.css"
 import { useState, useMemo } from "react";
 import { useBatchStocks } from "./hooks/useStocks";
 import AsyncSelect from 'react-select/async';
-import type { MultiValue } from 'react-select';
+import type { FormatOptionLabelMeta, MultiValue } from 'react-select';
 import { searchTickers } from './api/stocks';
 import Canvas from "./components/canvas/canvas";
 import type { SnapshotEntry } from "./components/canvas/types";
 import { ShowAllButton } from "./components/show-all-button";
+import { DividendCalendar } from "./components/dividend-calendar";
+import { DividendHistory } from "./components/dividend-history";
 import { isDefined } from "./lib/utils";
 
 interface OptionType {
   value: string;
   label: string;
+  name?: string;
+  yield?: number | null;
 }
 
+// Rich row in the dropdown, bare ticker once selected
+const formatOptionLabel = (option: OptionType, { context }: FormatOptionLabelMeta<OptionType>) => {
+  if (context === 'value' || !option.name) return option.label;
+
+  return (
+    <div className="search-option">
+      <span className="search-option-ticker">{option.value}</span>
+      <span className="search-option-name">{option.name}</span>
+      {option.yield != null && (
+        <span className="search-option-yield">{option.yield.toFixed(2)}%</span>
+      )}
+    </div>
+  );
+};
+
 function App() {
   const [selectedStocks, setSelectedStocks] = useState<string[]>([]);
   const [snapshotStocks, setSnapshotStocks] = useState<SnapshotEntry[] | null>(null);
@@ -33,13 +52,15 @@ function App() {
       // Don't search for very short queries
       if (!inputValue) return [];
 
-      // Search backend for matching tickers
-      const tickers = await searchTickers(inputValue, 50);
+      // Search backend for matching tickers and company names
+      const results = await searchTickers(inputValue, 50);
 
       // Convert to react-select format
-      return tickers.map(ticker => ({
-        value: ticker,
-        label: ticker,
+      return results.map(result => ({
+        value: result.ticker,
+        label: result.ticker,
+        name: result.name,
+        yield: result.yield,
       }));
     } catch (error) {
       console.error('Error loading options:', error);
@@ -94,9 +115,10 @@ function App() {
               cacheOptions              // Cache search results
               defaultOptions={false}    // Don't load options on mount
               loadOptions={loadOptions} // Load options as user types
+              formatOptionLabel={formatOptionLabel}
               value={selectedOptions}
               onChange={handleChange}
-              placeholder="Type to search stocks (e.g., AAPL)..."
+              placeholder="Type to search stocks (e.g., AAPL or Coca-Cola)..."
               className="react-select-container"
               classNamePrefix="react-select"
               closeMenuOnSelect={false}
@@ -140,7 +162,7 @@ function App() {
             />
 
             <div className="help-text">
-              Start typing a stock ticker to see suggestions
+              Start typing a stock ticker or company name to see suggestions
             </div>
           </div>
 
@@ -188,6 +210,18 @@ function App() {
 
       <Legend />
 
+      {/* Calendar follows whatever is on the canvas */}
+      {snapshotStocks ? (
+        <DividendCalendar />
+      ) : selectedStocks.length > 0 && (
+        <DividendCalendar tickers={selectedStocks} />
+      )}
+
+      {/* Payment history for the individually selected stocks */}
+      {!snapshotStocks && selectedStocks.length > 0 && (
+        <DividendHistory tickers={selectedStocks} />
+      )}
+
       {stocksData?.errors && Object.keys(stocksData.errors).length > 0 && (
         <div className="warnings">
           <h3>⚠️ Some stocks failed to load:</h3>
@@ -0,0 +1,47 @@
+export type CalendarEventType = 'ex-dividend' | 'payment';
+
+export interface CalendarEvent {
+    ticker: string;
+    name: string;
+    type: CalendarEventType;
+    date: string;           // YYYY-MM-DD
+    amount: number | null;  // Per share, when known
+}
+
+export interface CalendarResponse {
+    success: boolean;
+    data: CalendarEvent[];
+    count: number;
+}
+
+export interface CalendarParams {
+    from?: string;
+    to?: string;
+    tickers?: string[];     // Omit for the whole snapshot universe
+}
+
+function calendarQuery({ from, to, tickers }: CalendarParams): URLSearchParams {
+    const params = new URLSearchParams();
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (tickers && tickers.length > 0) params.set('tickers', tickers.join(','));
+    return params;
+}
+
+export async function getCalendar(params: CalendarParams = {}): Promise<CalendarEvent[]> {
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/api/calendar?${calendarQuery(params)}`);
+    const ret = await response.json()
+
+    if (!response.ok) {
+        throw new Error(ret.message ?? 'Failed to fetch dividend calendar');
+    }
+
+    return (ret as CalendarResponse).data
+}
+
+/**
+ * Subscribable iCalendar feed URL for the same query
+ */
+export function getCalendarFeedUrl(params: CalendarParams = {}): string {
+    return `${import.meta.env.VITE_API_URL}/api/calendar.ics?${calendarQuery(params)}`;
+}
@@ -0,0 +1,21 @@
+import type { Sector } from '@/components/canvas/types';
+
+export interface SectorsResponse {
+    success: boolean;
+    data: Sector[];
+    count: number;
+}
+
+/**
+ * Sector taxonomy in display order (fallback bucket last)
+ */
+export async function getSectors(): Promise<Sector[]> {
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/api/sectors`);
+    const ret = await response.json()
+
+    if (!response.ok) {
+        throw new Error(ret.message ?? 'Failed to fetch sectors');
+    }
+
+    return (ret as SectorsResponse).data
+}
@@ -3,6 +3,25 @@ export interface StockData {
     name: string;
     sector: string;
     yield: number;
+    rawSector?: string | null;
+    industry?: string;
+    dividendPerShare?: number | null;
+    payoutRatio?: number | null;     // Percentage, like yield
+    exDividendDate?: string | null;  // YYYY-MM-DD
+    dividendDate?: string | null;    // YYYY-MM-DD (payment date)
+    marketCap?: number | null;       // USD
+    eps?: number | null;
+    growth?: DividendGrowth | null;
+}
+
+export interface DividendGrowth {
+    cagr1y: number | null;          // Annualised percentages over complete calendar years
+    cagr3y: number | null;
+    cagr5y: number | null;
+    cagr10y: number | null;
+    consecutiveRaises: number;
+    consecutiveCuts: number;
+    classification: 'king' | 'aristocrat' | null;
 }
 
 export interface TickersResponse {
@@ -11,11 +30,18 @@ export interface TickersResponse {
     count: number;
 }
 
+export interface TickerSearchResult {
+    ticker: string;
+    name: string;
+    exchange: string | null;
+    sector: string | null;
+    yield: number | null;
+}
+
 export interface SearchResponse {
     success: boolean;
-    data: string[];
+    data: TickerSearchResult[];
     count: number;
-    total: number;
 }
 
 export interface StockResponse {
@@ -23,6 +49,25 @@ export interface StockResponse {
     data: StockData;
 }
 
+export interface DividendPayment {
+    exDate: string;                 // YYYY-MM-DD
+    payDate: string | null;
+    recordDate: string | null;
+    declarationDate: string | null;
+    amount: number;
+}
+
+export interface DividendHistory {
+    ticker: string;
+    payments: DividendPayment[];    // Oldest first
+}
+
+export interface DividendHistoryResponse {
+    success: boolean;
+    data: DividendHistory;
+    count: number;
+}
+
 export interface BatchStocksResponse {
     success: boolean;
     data: Record<string, StockData>;
@@ -35,10 +80,10 @@ export interface BatchStocksResponse {
 }
 
 /**
- * Search for tickers by query string
+ * Search for tickers by symbol or company name
  * This is what AsyncSelect will use!
  */
-export async function searchTickers(query: string, limit: number = 50): Promise<string[]> {
+export async function searchTickers(query: string, limit: number = 50): Promise<TickerSearchResult[]> {
     if (!query || query.length < 1) {
         return [];
     }
@@ -62,6 +107,17 @@ export async function getStock(ticker: string): Promise<StockData> {
     return await response.json()
 }
 
+export async function getDividendHistory(ticker: string): Promise<DividendHistory> {
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/api/stocks/${ticker}/dividends`);
+    const ret = await response.json()
+
+    if (!response.ok) {
+        throw new Error(ret.message ?? 'Failed to fetch dividend history');
+    }
+
+    return (ret as DividendHistoryResponse).data
+}
+
 export async function getTickers(): Promise<TickersResponse> {
     const response = await fetch(`${import.meta.env.VITE_API_URL}/api/stocks/tickers`);
     const ret: TickersResponse = await response.json()
@@ -1,7 +1,8 @@
 import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
-import { draw } from './canvasUtils';
-import { sectors } from './constants';
-import type { StockData, StockPosition, CanvasConfig } from './types';
+import { draw, industryOf, industryWedges, sectorAtPoint } from './canvasUtils';
+import { formatTooltipContent } from './tooltipUtils';
+import { useSectors } from '@/hooks/useSectors';
+import type { StockData, StockPosition, CanvasConfig, Sector } from './types';
 
 interface CanvasProps {
     stocks: StockData[];
@@ -12,6 +13,9 @@ interface CanvasProps {
     showLabels?: boolean;
 }
 
+// Pointer travel (px) below which a press counts as a click, not a pan
+const CLICK_TOLERANCE = 4;
+
 interface Transform {
     scale: number;
     offsetX: number;
@@ -26,6 +30,7 @@ export default function Canvas({
     height = 800,
     showLabels = true,
 }: CanvasProps) {
+    const { sectors } = useSectors();
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const tooltipRef = useRef<HTMLDivElement>(null);
 
@@ -42,6 +47,20 @@ export default function Canvas({
     // Panning state
     const [isPanning, setIsPanning] = useState(false);
     const [panStart, setPanStart] = useState({ x: 0, y: 0 });
+    const pressStartRef = useRef({ x: 0, y: 0 });
+
+    // Sector whose industries are shown, null for the overview
+    const [drillSector, setDrillSector] = useState<Sector | null>(null);
+
+    // In a drill-down, wedges are the sector's industries and only its stocks are drawn
+    const wedges = useMemo(
+        () => drillSector ? industryWedges(stocks, drillSector) : sectors,
+        [drillSector, sectors, stocks]
+    );
+    const visibleStocks = useMemo(
+        () => drillSector ? stocks.filter(stock => stock.sector === drillSector.name) : stocks,
+        [drillSector, stocks]
+    );
 
     // Canvas configuration - memoize to prevent recalculation
     const config = useMemo<CanvasConfig>(() => ({
@@ -66,13 +85,14 @@ export default function Canvas({
         draw(
             ctx,
             config,
-            sectors,
-            stocks,
+            wedges,
+            visibleStocks,
             showLabels && transform.scale > 0.8, // Hide labels when zoomed out
             stockPositionsRef.current, // Pass ref to be populated
-            transform
+            transform,
+            drillSector ? industryOf : undefined
         );
-    }, [transform, config, stocks, showLabels]);
+    }, [transform, config, wedges, visibleStocks, drillSector, showLabels]);
 
     // Redraw when dependencies change
     useEffect(() => {
@@ -127,6 +147,7 @@ export default function Canvas({
         if (e.button === 0) {
             setIsPanning(true);
             setPanStart({ x: e.clientX, y: e.clientY });
+            pressStartRef.current = { x: e.clientX, y: e.clientY };
 
             // Change cursor
             if (canvasRef.current) {
@@ -183,27 +204,7 @@ export default function Canvas({
 
         if (foundStock) {
             // Show tooltip
-            tooltip.innerHTML = `
-        <div class="tooltip-content">
-          <div class="tooltip-header">
-            <strong>${(foundStock as StockPosition).data.ticker}</strong>
-          </div>
-          <div class="tooltip-body">
-            <div class="tooltip-row">
-              <span class="tooltip-label">Name:</span>
-              <span class="tooltip-value">${(foundStock as StockPosition).data.name}</span>
-            </div>
-            <div class="tooltip-row">
-              <span class="tooltip-label">Sector:</span>
-              <span class="tooltip-value">${(foundStock as StockPosition).data.sector}</span>
-            </div>
-            <div class="tooltip-row">
-              <span class="tooltip-label">Dividend Yield:</span>
-              <span class="tooltip-value">${(foundStock as StockPosition).data.yield.toFixed(2)}%</span>
-            </div>
-          </div>
-        </div>
-      `;
+            tooltip.innerHTML = formatTooltipContent(foundStock as StockPosition);
             tooltip.style.display = 'block';
             tooltip.style.left = `${e.clientX + 15}px`;
             tooltip.style.top = `${e.clientY + 15}px`;
@@ -214,13 +215,32 @@ export default function Canvas({
         }
     }, [isPanning, panStart, getCanvasCoordinates, transform.scale]);
 
+    // Enter or leave an industry drill-down, starting from an unzoomed view
+    const changeDrillSector = useCallback((sector: Sector | null) => {
+        setDrillSector(sector);
+        setTransform({ scale: 1, offsetX: 0, offsetY: 0 });
+        if (tooltipRef.current) {
+            tooltipRef.current.style.display = 'none';
+        }
+    }, []);
+
     // Handle mouse up
-    const handleMouseUp = useCallback(() => {
+    const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
         setIsPanning(false);
         if (canvasRef.current) {
             canvasRef.current.style.cursor = 'grab';
         }
-    }, []);
+
+        // A click (not a drag) on an overview wedge drills into its industries
+        const moved = Math.hypot(e.clientX - pressStartRef.current.x, e.clientY - pressStartRef.current.y);
+        if (drillSector || moved > CLICK_TOLERANCE) return;
+
+        const { x, y } = getCanvasCoordinates(e.clientX, e.clientY);
+        const sector = sectorAtPoint(x, y, config, sectors);
+        if (sector) {
+            changeDrillSector(sector);
+        }
+    }, [drillSector, getCanvasCoordinates, config, sectors, changeDrillSector]);
 
     // Handle mouse leave
     const handleMouseLeave = useCallback(() => {
@@ -258,6 +278,10 @@ export default function Canvas({
             if (e.key === 'r' || e.key === 'R') {
                 handleReset();
             }
+            // Back to the sector overview with Escape
+            if (e.key === 'Escape') {
+                changeDrillSector(null);
+            }
             // Zoom in with '+'
             if (e.key === '+' || e.key === '=') {
                 setTransform(prev => ({
@@ -276,7 +300,7 @@ export default function Canvas({
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [handleReset]);
+    }, [handleReset, changeDrillSector]);
 
     return (
         <div className={`canvas-container ${className || ''}`}>
@@ -287,6 +311,21 @@ export default function Canvas({
                 </div>
             )}
 
+            <nav className="canvas-breadcrumb" aria-label="Canvas drill-down">
+                {drillSector ? (
+                    <>
+                        <button onClick={() => changeDrillSector(null)}>All sectors</button>
+                        <span className="canvas-breadcrumb-separator">›</span>
+                        <span style={{ color: drillSector.color }}>{drillSector.name}</span>
+                        <span className="canvas-breadcrumb-count">
+                            {wedges.length} {wedges.length === 1 ? 'industry' : 'industries'}
+                        </span>
+                    </>
+                ) : (
+                    <span>All sectors</span>
+                )}
+            </nav>
+
             <canvas
                 ref={canvasRef}
                 width={width}
@@ -332,7 +371,9 @@ export default function Canvas({
             </div>
 
             <div className="canvas-hint">
-                💡 Scroll to zoom • Drag to pan • Press R to reset
+                💡 Scroll to zoom • Drag to pan • Press R to reset • {drillSector
+                    ? 'Esc to go back'
+                    : 'Click a sector for its industries'}
             </div>
 
             <div ref={tooltipRef} className="tooltip" />
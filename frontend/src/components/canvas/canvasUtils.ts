@@ -1,3 +1,4 @@
+import { FALLBACK_SECTOR_COLOR } from './constants';
 import type { StockData, StockPosition, CanvasConfig, Sector, SectorAngles } from './types';
 
 /**
@@ -22,6 +23,50 @@ function getSectorAngle(sectorName: string, sectors: Sector[]): SectorAngles {
     };
 }
 
+/**
+ * Wedge under a canvas point, or null outside the circle
+ */
+export function sectorAtPoint(
+    x: number,
+    y: number,
+    config: CanvasConfig,
+    sectors: Sector[]
+): Sector | null {
+    const dx = x - config.centerX;
+    const dy = y - config.centerY;
+    if (sectors.length === 0 || Math.sqrt(dx * dx + dy * dy) > config.maxRadius) return null;
+
+    // Angle clockwise from the top, where the first wedge starts
+    const angle = (Math.atan2(dy, dx) + Math.PI / 2 + 2 * Math.PI) % (2 * Math.PI);
+    const index = Math.floor(angle / ((2 * Math.PI) / sectors.length));
+
+    return sectors[Math.min(index, sectors.length - 1)];
+}
+
+// Label for stocks the provider gave no industry for; must match
+// UNCLASSIFIED_INDUSTRY in backend/src/industryBreakdown.ts
+export const UNCLASSIFIED_INDUSTRY = 'Unknown';
+
+export function industryOf(stock: StockData): string {
+    return stock.industry || UNCLASSIFIED_INDUSTRY;
+}
+
+/**
+ * One wedge per industry within a sector, largest first, in the sector's colour
+ */
+export function industryWedges(stocks: StockData[], sector: Sector): Sector[] {
+    const counts = new Map<string, number>();
+    stocks.forEach(stock => {
+        if (stock.sector !== sector.name) return;
+        const industry = industryOf(stock);
+        counts.set(industry, (counts.get(industry) ?? 0) + 1);
+    });
+
+    return [...counts.entries()]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .map(([name], i) => ({ name, color: sector.color, order: i, rawSectors: [] }));
+}
+
 /**
  * Draw concentric circles with yield labels
  */
@@ -94,7 +139,7 @@ function drawSectors(
         ctx.translate(labelX, labelY);
         ctx.rotate(labelAngle + Math.PI / 2);
         ctx.fillStyle = sector.color;
-        ctx.font = 'bold 13px sans-serif';
+        ctx.font = sectors.length > 8 ? 'bold 11px sans-serif' : 'bold 13px sans-serif';
         ctx.textAlign = 'center';
         ctx.fillText(sector.name, 0, 0);
         ctx.restore();
@@ -125,13 +170,17 @@ function drawStocks(
     sectors: Sector[],
     stocks: StockData[],
     showLabels: boolean,
-    stockPositions: Map<string, StockPosition>
+    stockPositions: Map<string, StockPosition>,
+    wedgeOf: (stock: StockData) => string
 ): void {
     const { centerX, centerY, yieldRanges } = config;
     const maxYield = yieldRanges[yieldRanges.length - 1];
 
+    // No wedges yet (taxonomy still loading), nowhere to place points
+    if (sectors.length === 0) return;
+
     stocks.forEach(stock => {
-        const angles = getSectorAngle(stock.sector, sectors);
+        const angles = getSectorAngle(wedgeOf(stock), sectors);
         const radius = yieldToRadius(stock.yield, maxYield, config.maxRadius);
 
         // Add random variation within sector (deterministic based on ticker)
@@ -153,8 +202,8 @@ function drawStocks(
         });
 
         // Get sector color
-        const sector = sectors.find(s => s.name === stock.sector);
-        const color = sector?.color || '#666';
+        const sector = sectors.find(s => s.name === wedgeOf(stock));
+        const color = sector?.color || FALLBACK_SECTOR_COLOR;
 
         // Draw stock point
         ctx.beginPath();
@@ -185,7 +234,8 @@ export function draw(
     stocks: StockData[],
     showLabels: boolean,
     stockPositions: Map<string, StockPosition>,
-    transform: any
+    transform: any,
+    wedgeOf: (stock: StockData) => string = stock => stock.sector
 ): void {
     ctx.setTransform(1, 0, 0, 1, 0, 0);
 
@@ -197,6 +247,6 @@ export function draw(
     // Draw layers in order
     drawYieldCircles(ctx, config);
     drawSectors(ctx, config, sectors);
-    drawStocks(ctx, config, sectors, stocks, showLabels, stockPositions);
+    drawStocks(ctx, config, sectors, stocks, showLabels, stockPositions, wedgeOf);
     drawCenterPoint(ctx, config);
 }
\ No newline at end of file
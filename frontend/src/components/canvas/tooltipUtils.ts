@@ -45,30 +45,78 @@ function findStockAtPosition(
   return closestStock;
 }
 
+/**
+ * Format a market cap as $1.2T / $850.0B / $12.3M
+ */
+function formatMarketCap(value: number): string {
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(1)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${value.toLocaleString()}`;
+}
+
+/**
+ * Escape vendor-supplied text before it goes into tooltip HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Single label/value row; skipped when the value is unknown
+ */
+function tooltipRow(label: string, value: string | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  return `
+        <div class="tooltip-row">
+          <span class="tooltip-label">${label}:</span>
+          <span class="tooltip-value">${escapeHtml(value)}</span>
+        </div>`;
+}
+
+/**
+ * "12 yrs (aristocrat)" style streak summary
+ */
+function formatStreak(stock: StockPosition['data']): string | null {
+  const growth = stock.growth;
+  if (!growth) return null;
+
+  if (growth.consecutiveCuts > 0) return `Cut ${growth.consecutiveCuts} yr${growth.consecutiveCuts !== 1 ? 's' : ''} running`;
+
+  const years = `${growth.consecutiveRaises} yr${growth.consecutiveRaises !== 1 ? 's' : ''}`;
+  return growth.classification ? `${years} (${growth.classification})` : years;
+}
+
 /**
  * Format tooltip content
  */
-function formatTooltipContent(stock: StockPosition): string {
+export function formatTooltipContent(stock: StockPosition): string {
   const { data } = stock;
-  
+
   return `
     <div class="tooltip-content">
       <div class="tooltip-header">
-        <strong>${data.ticker}</strong>
+        <strong>${escapeHtml(data.ticker)}</strong>
       </div>
       <div class="tooltip-body">
-        <div class="tooltip-row">
-          <span class="tooltip-label">Name:</span>
-          <span class="tooltip-value">${data.name}</span>
-        </div>
-        <div class="tooltip-row">
-          <span class="tooltip-label">Sector:</span>
-          <span class="tooltip-value">${data.sector}</span>
-        </div>
-        <div class="tooltip-row">
-          <span class="tooltip-label">Dividend Yield:</span>
-          <span class="tooltip-value">${data.yield.toFixed(2)}%</span>
-        </div>
+        ${tooltipRow('Name', data.name)}
+        ${tooltipRow('Sector', data.rawSector && data.rawSector !== data.sector ? `${data.sector} (${data.rawSector})` : data.sector)}
+        ${tooltipRow('Industry', data.industry)}
+        ${tooltipRow('Dividend Yield', `${data.yield.toFixed(2)}%`)}
+        ${tooltipRow('Dividend / Share', data.dividendPerShare != null ? `$${data.dividendPerShare.toFixed(2)}` : null)}
+        ${tooltipRow('Payout Ratio', data.payoutRatio != null ? `${data.payoutRatio.toFixed(1)}%` : null)}
+        ${tooltipRow('Ex-Dividend', data.exDividendDate)}
+        ${tooltipRow('Pay Date', data.dividendDate)}
+        ${tooltipRow('Market Cap', data.marketCap != null ? formatMarketCap(data.marketCap) : null)}
+        ${tooltipRow('EPS', data.eps != null ? data.eps.toFixed(2) : null)}
+        ${tooltipRow('5y Dividend CAGR', data.growth?.cagr5y != null ? `${data.growth.cagr5y.toFixed(1)}%` : null)}
+        ${tooltipRow('Raise Streak', formatStreak(data))}
       </div>
     </div>
   `;
@@ -1,4 +1,4 @@
-export type JobStatus = 'idle' | 'running' | 'failed';
+export type JobStatus = 'idle' | 'running' | 'paused' | 'failed';
 
 export interface JobProgress {
   completed: number;
@@ -7,6 +7,46 @@ export interface JobProgress {
   estimatedMinutes: number;
 }
 
+// How far the run behind a snapshot got
+export interface SnapshotCoverage {
+  total: number;                    // Tickers the run set out to fetch
+  universeSize: number;
+  processed: number;
+  paying: number;
+  skipped: number;                  // Fetched, but pays no dividend
+  failed: number;
+}
+
+export interface SnapshotMeta {
+  schemaVersion: number;
+  complete: boolean;                // False when saved from a cancelled or failed run
+  runId: string;
+  universe: string;
+  mode: 'full' | 'incremental';
+  provider: string;
+  startedAt: string;                // ISO timestamp
+  generatedAt: string;              // ISO timestamp
+  coverage: SnapshotCoverage;
+}
+
+// A message on /api/snapshot/progress
+export interface SnapshotEvent {
+  id?: string;                      // Absent on the initial 'status' message
+  type: 'status' | 'ticker' | 'ticker-failed' | 'phase' | 'finished';
+  status: JobStatus;
+  progress: JobProgress | null;
+  ticker?: string;                  // ticker, ticker-failed
+  paying?: boolean;                 // ticker
+  error?: string;                   // ticker-failed: error code
+  retrying?: boolean;               // ticker-failed
+}
+
+// A ticker the running job has just processed, for the live feed
+export interface ProcessedTicker {
+  ticker: string;
+  outcome: 'paying' | 'not-paying' | 'failed' | 'retrying';
+}
+
 export interface SnapshotEntry extends StockData {
     ticker: string;
 }
@@ -17,6 +57,25 @@ export interface StockData {
   name: string;
   sector: string;
   yield: number;
+  rawSector?: string | null;
+  industry?: string;
+  dividendPerShare?: number | null;
+  payoutRatio?: number | null;     // Percentage, like yield
+  exDividendDate?: string | null;  // YYYY-MM-DD
+  dividendDate?: string | null;    // YYYY-MM-DD (payment date)
+  marketCap?: number | null;       // USD
+  eps?: number | null;
+  growth?: DividendGrowth | null;
+}
+
+export interface DividendGrowth {
+  cagr1y: number | null;          // Annualised percentages over complete calendar years
+  cagr3y: number | null;
+  cagr5y: number | null;
+  cagr10y: number | null;
+  consecutiveRaises: number;
+  consecutiveCuts: number;
+  classification: 'king' | 'aristocrat' | null;
 }
 
 export interface StockPosition {
@@ -37,6 +96,8 @@ export interface CanvasConfig {
 export interface Sector {
   name: string;
   color: string;
+  order: number;
+  rawSectors: string[]; // Vendor sectors that map to this bucket
 }
 
 export interface SectorAngles {
@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { getCalendarFeedUrl, type CalendarEvent } from "@/api/calendar";
+import { useCalendar } from "@/hooks/useCalendar";
+
+interface DividendCalendarProps {
+    tickers?: string[]; // Omit for the whole snapshot universe
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+});
+
+export function DividendCalendar({ tickers }: DividendCalendarProps) {
+    const { data: events, isLoading, isError, error } = useCalendar({ tickers });
+
+    // Group events by day, keeping the server's date order
+    const days = useMemo(() => {
+        const grouped = new Map<string, CalendarEvent[]>();
+        events?.forEach(event => {
+            grouped.set(event.date, [...(grouped.get(event.date) ?? []), event]);
+        });
+        return [...grouped.entries()];
+    }, [events]);
+
+    return (
+        <div className="dividend-calendar">
+            <div className="calendar-header">
+                <h3>Upcoming Dividends</h3>
+                <a
+                    className="calendar-subscribe"
+                    href={getCalendarFeedUrl({ tickers })}
+                    title="Add this calendar to your calendar app"
+                >
+                    📅 Subscribe (.ics)
+                </a>
+            </div>
+
+            {isLoading && <p className="calendar-empty">Loading calendar…</p>}
+
+            {isError && <p className="calendar-empty">⚠️ {(error as Error).message}</p>}
+
+            {events && days.length === 0 && (
+                <p className="calendar-empty">No ex-dividend or payment dates in the next 90 days.</p>
+            )}
+
+            {days.map(([date, dayEvents]) => (
+                <div key={date} className="calendar-day">
+                    <div className="calendar-date">{dateFormat.format(new Date(`${date}T00:00:00Z`))}</div>
+                    <ul>
+                        {dayEvents.map(event => (
+                            <li key={`${event.ticker}-${event.type}`} className="calendar-event">
+                                <strong>{event.ticker}</strong>
+                                <span className={`calendar-type calendar-type-${event.type}`}>
+                                    {event.type === 'ex-dividend' ? 'Ex-date' : 'Pay date'}
+                                </span>
+                                <span className="calendar-name">{event.name}</span>
+                                {event.amount !== null && (
+                                    <span className="calendar-amount">${event.amount.toFixed(2)}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+}
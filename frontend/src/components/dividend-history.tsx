@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { LineChart } from "@mui/x-charts";
+import { useDividendHistory } from "@/hooks/useStocks";
+
+interface DividendHistoryProps {
+    tickers: string[];
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+});
+
+/**
+ * Per-payment dividend amounts for one of the selected stocks
+ */
+export function DividendHistory({ tickers }: DividendHistoryProps) {
+    const [selected, setSelected] = useState<string | null>(null);
+
+    // Fall back to the first ticker once the selected one is removed
+    const ticker = selected && tickers.includes(selected) ? selected : tickers[0];
+    const { data: history, isLoading, isError, error } = useDividendHistory(ticker);
+
+    const payments = history?.payments ?? [];
+
+    return (
+        <div className="dividend-history">
+            <div className="calendar-header">
+                <h3>Dividend History</h3>
+                {tickers.length > 1 && (
+                    <div className="history-tickers">
+                        {tickers.map(t => (
+                            <button
+                                key={t}
+                                className={`history-ticker${t === ticker ? ' history-ticker-active' : ''}`}
+                                onClick={() => setSelected(t)}
+                            >
+                                {t}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {isLoading && <p className="calendar-empty">Loading payment history…</p>}
+
+            {isError && <p className="calendar-empty">⚠️ {(error as Error).message}</p>}
+
+            {history && payments.length === 0 && (
+                <p className="calendar-empty">{ticker} has no recorded dividend payments.</p>
+            )}
+
+            {payments.length > 0 && (
+                <LineChart
+                    height={260}
+                    xAxis={[{
+                        scaleType: 'time',
+                        data: payments.map(payment => new Date(`${payment.exDate}T00:00:00Z`)),
+                        valueFormatter: (date: Date) => dateFormat.format(date),
+                    }]}
+                    yAxis={[{ width: 50, valueFormatter: (amount: number) => `$${amount.toFixed(2)}` }]}
+                    series={[{
+                        data: payments.map(payment => payment.amount),
+                        label: `${ticker} dividend per share (by ex-date)`,
+                        curve: 'stepAfter',
+                        showMark: payments.length <= 40,
+                        valueFormatter: (amount: number | null) => amount != null ? `$${amount.toFixed(4)}` : '',
+                    }]}
+                    grid={{ horizontal: true }}
+                />
+            )}
+        </div>
+    );
+}
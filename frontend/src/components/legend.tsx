@@ -1,7 +1,8 @@
-import { sectors } from "./canvas/constants";
+import { useSectors } from "@/hooks/useSectors";
 
 
 export default function Legend() {
+    const { sectors } = useSectors();
 
     return (
         <div className="legend">
@@ -1,7 +1,15 @@
 import { useSnapshot } from "@/hooks/useSnapshot";
-import type { SnapshotEntry } from "./canvas/types";
+import type { ProcessedTicker, SnapshotEntry } from "./canvas/types";
+import { SnapshotBanner } from "./snapshot-banner";
 import { useEffect } from "react";
 
+const OUTCOME_LABELS: Record<ProcessedTicker['outcome'], string> = {
+    'paying': 'pays',
+    'not-paying': 'no dividend',
+    'failed': 'failed',
+    'retrying': 'will retry',
+};
+
 interface ShowAllButtonProps {
     onData: (data: SnapshotEntry[]) => void;
 }
@@ -10,10 +18,13 @@ export function ShowAllButton({ onData }: ShowAllButtonProps) {
     const {
         progress,
         data,
+        meta,
         error,
+        recentTickers,
         percentComplete,
         isRunning,
         isReady,
+        isPartial,
         triggerJob,
     } = useSnapshot();
 
@@ -24,13 +35,25 @@ export function ShowAllButton({ onData }: ShowAllButtonProps) {
         }
     }, [data, onData]);
 
-    // ── Already have data ───────────────────────────────────────────────────
-    if (isReady) {
+    // ── Already have data (possibly from a run that stopped early) ──────────
+    if (isReady && !isRunning) {
         return (
             <div className="show-all-container">
-                <span className="snapshot-ready">
-                    ✅ {data!.length} dividend-paying stocks loaded
-                </span>
+                {isPartial ? (
+                    <span className="snapshot-partial">
+                        ⚠️ Partial snapshot: {data!.length} dividend-paying stocks, the run stopped early
+                    </span>
+                ) : (
+                    <span className="snapshot-ready">
+                        ✅ {data!.length} dividend-paying stocks loaded
+                    </span>
+                )}
+                {meta && <SnapshotBanner meta={meta} />}
+                {isPartial && (
+                    <button className="show-all-btn" onClick={triggerJob}>
+                        Rebuild
+                    </button>
+                )}
             </div>
         );
     }
@@ -50,6 +73,18 @@ export function ShowAllButton({ onData }: ShowAllButtonProps) {
                     />
                 </div>
                 <span className="progress-percent">{percentComplete}%</span>
+                {recentTickers.length > 0 && (
+                    <ul className="snapshot-feed">
+                        {recentTickers.map(({ ticker, outcome }, i) => (
+                            <li key={`${ticker}-${i}`} className="snapshot-feed-item">
+                                <span className="snapshot-feed-ticker">{ticker}</span>
+                                <span className={`snapshot-feed-outcome snapshot-feed-${outcome}`}>
+                                    {OUTCOME_LABELS[outcome]}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
         );
     }
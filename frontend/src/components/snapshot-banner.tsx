@@ -0,0 +1,31 @@
+import type { SnapshotMeta } from "./canvas/types";
+
+interface SnapshotBannerProps {
+    meta: SnapshotMeta;
+}
+
+/**
+ * "Data as of" line for a loaded snapshot, with how much of its run's
+ * ticker list was fetched successfully
+ */
+export function SnapshotBanner({ meta }: SnapshotBannerProps) {
+    const { coverage } = meta;
+    const fetched = coverage.processed - coverage.failed;
+    const percent = coverage.total > 0 ? Math.round((fetched / coverage.total) * 100) : 100;
+
+    return (
+        <div className={meta.complete ? "snapshot-banner" : "snapshot-banner snapshot-banner-partial"}>
+            <span className="snapshot-banner-date">
+                Data as of {new Date(meta.generatedAt).toLocaleString()}
+            </span>
+            <span className="snapshot-banner-coverage">
+                {fetched} of {coverage.total} tickers fetched ({percent}%)
+                {coverage.failed > 0 && `, ${coverage.failed} failed`}
+                {' '}· universe of {coverage.universeSize} · via {meta.provider}
+            </span>
+            <div className="coverage-bar-track" title={`${percent}% of tickers fetched`}>
+                <div className="coverage-bar-fill" style={{ width: `${percent}%` }} />
+            </div>
+        </div>
+    );
+}
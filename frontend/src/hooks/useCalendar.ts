@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCalendar, type CalendarEvent, type CalendarParams } from '../api/calendar';
+
+/**
+ * Hook to fetch upcoming ex-dividend and payment dates
+ */
+export function useCalendar(params: CalendarParams, enabled: boolean = true) {
+  return useQuery<CalendarEvent[]>({
+    queryKey: ['calendar', params.from, params.to, [...(params.tickers ?? [])].sort().join(',')],
+    queryFn: () => getCalendar(params),
+    enabled,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+  });
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSectors } from '../api/sectors';
+import type { Sector } from '@/components/canvas/types';
+
+const NO_SECTORS: Sector[] = [];
+
+/**
+ * Sector wedges for the canvas and legend, served by the backend taxonomy
+ */
+export function useSectors() {
+  const query = useQuery<Sector[]>({
+    queryKey: ['sectors'],
+    queryFn: getSectors,
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours, the taxonomy only changes on deploy
+  });
+
+  return { ...query, sectors: query.data ?? NO_SECTORS };
+}
@@ -1,11 +1,35 @@
-import type { JobProgress, JobStatus, SnapshotEntry } from "@/components/canvas/types";
+import type {
+    JobProgress,
+    JobStatus,
+    ProcessedTicker,
+    SnapshotEntry,
+    SnapshotEvent,
+    SnapshotMeta,
+} from "@/components/canvas/types";
 import { useCallback, useEffect, useRef, useState } from "react";
 
+// How many processed tickers the live feed keeps
+const RECENT_TICKER_LIMIT = 8;
+
 interface SnapshotState {
     status: JobStatus;
     progress: JobProgress | null;
     data: SnapshotEntry[] | null;
+    meta: SnapshotMeta | null;
     error: string | null;
+    recentTickers: ProcessedTicker[];   // Newest first
+}
+
+function processedTicker(event: SnapshotEvent): ProcessedTicker | null {
+    if (!event.ticker) return null;
+
+    if (event.type === 'ticker') {
+        return { ticker: event.ticker, outcome: event.paying ? 'paying' : 'not-paying' };
+    }
+    if (event.type === 'ticker-failed') {
+        return { ticker: event.ticker, outcome: event.retrying ? 'retrying' : 'failed' };
+    }
+    return null;
 }
 
 /**
@@ -17,7 +41,9 @@ export function useSnapshot() {
         status: 'idle',
         progress: null,
         data: null,
+        meta: null,
         error: null,
+        recentTickers: [],
     });
 
     const eventSourceRef = useRef<EventSource | null>(null);
@@ -28,29 +54,41 @@ export function useSnapshot() {
         eventSourceRef.current = null;
     }, []);
 
-    // Subscribe to live progress updates via Server-Sent Events
+    // Subscribe to live job events via Server-Sent Events
     const subscribeToProgress = useCallback(() => {
         if (eventSourceRef.current) return; // Already subscribed
 
         const source = new EventSource(`${import.meta.env.VITE_API_URL}/api/snapshot/progress`);
         eventSourceRef.current = source;
 
-        source.onmessage = (event) => {
-            const { status, progress } = JSON.parse(event.data) as {
-                status: JobStatus;
-                progress: JobProgress | null;
-            };
+        source.onmessage = (message) => {
+            const event = JSON.parse(message.data) as SnapshotEvent;
+            const processed = processedTicker(event);
 
-            setState(prev => ({ ...prev, status, progress }));
+            setState(prev => ({
+                ...prev,
+                status: event.status,
+                progress: event.progress ?? prev.progress,
+                recentTickers: processed
+                    ? [processed, ...prev.recentTickers].slice(0, RECENT_TICKER_LIMIT)
+                    : prev.recentTickers,
+            }));
+
+            if (event.status === 'running') return;
+            closeStream();
 
             // Job finished — fetch the completed snapshot
-            if (status === 'idle') {
-                closeStream();
+            if (event.status === 'idle') {
                 fetchSnapshot();
+            } else if (event.status === 'failed') {
+                setState(prev => ({ ...prev, error: 'Snapshot job failed.' }));
             }
         };
 
+        // While the browser reconnects (resuming from the last event id)
+        // the source stays open; it only closes when it gives up
         source.onerror = () => {
+            if (source.readyState !== EventSource.CLOSED) return;
             setState(prev => ({ ...prev, status: 'failed', error: 'Lost connection to server.' }));
             closeStream();
         };
@@ -59,7 +97,9 @@ export function useSnapshot() {
     // Fetch the finished snapshot from the REST endpoint
     const fetchSnapshot = useCallback(async () => {
         try {
-            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/snapshot`);
+            // Always revalidate: the browser sends the cached copy's ETag and
+            // reuses it on 304, so an unchanged snapshot isn't downloaded again
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/snapshot`, { cache: 'no-cache' });
             const body = await res.json();
 
             if (!res.ok) {
@@ -88,6 +128,7 @@ export function useSnapshot() {
                 status: 'idle',
                 progress: null,
                 data: body.data,
+                meta: body.meta ?? null,
                 error: null,
             }));
         } catch (err) {
@@ -108,7 +149,7 @@ export function useSnapshot() {
                 return;
             }
 
-            setState(prev => ({ ...prev, status: 'running' }));
+            setState(prev => ({ ...prev, status: 'running', recentTickers: [] }));
             subscribeToProgress();
         } catch {
             setState(prev => ({ ...prev, error: 'Failed to trigger snapshot job.' }));
@@ -131,5 +172,6 @@ export function useSnapshot() {
         triggerJob,
         isRunning: state.status === 'running',
         isReady: state.data !== null,
+        isPartial: state.meta?.complete === false,
     };
 }
\ No newline at end of file
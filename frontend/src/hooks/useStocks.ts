@@ -1,5 +1,5 @@
 import { useQuery, useQueries } from '@tanstack/react-query';
-import { getStock, getBatchStocks, type StockData } from '../api/stocks';
+import { getStock, getBatchStocks, getDividendHistory, type DividendHistory, type StockData } from '../api/stocks';
 
 /**
  * Hook to fetch data for a single stock
@@ -44,4 +44,17 @@ export function useBatchStocks(tickers: string[], enabled: boolean = true) {
     // cacheTime: 2 * 60 * 60 * 1000, // 2 hours
     retry: 2,
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Hook to fetch a stock's dividend payment history (chart-ready, oldest first)
+ */
+export function useDividendHistory(ticker: string, enabled: boolean = true) {
+  return useQuery<DividendHistory>({
+    queryKey: ['dividends', ticker],
+    queryFn: () => getDividendHistory(ticker),
+    enabled: enabled && !!ticker,
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours; payments are announced weeks ahead
+    retry: 2,
+  });
+}